@@ -0,0 +1,69 @@
+import archiver from 'archiver';
+import fs from 'fs-extra';
+import path from 'path';
+import type { Writable } from 'stream';
+import { buildManifest, MANIFEST_FILENAME } from '@claude-doc-bot/worker';
+import type { Job } from './jobStore.js';
+
+export type ArchiveFormat = 'zip' | 'tar.gz';
+
+export const ARCHIVE_FORMATS: ArchiveFormat[] = ['zip', 'tar.gz'];
+
+export const ARCHIVE_CONTENT_TYPES: Record<ArchiveFormat, string> = {
+  zip: 'application/zip',
+  'tar.gz': 'application/gzip',
+};
+
+// Archive le dossier du job (manifeste compris) directement dans le flux de sortie
+export async function streamArchive(
+  job: Job,
+  outputDir: string,
+  format: ArchiveFormat,
+  output: Writable
+): Promise<void> {
+  const archive = createArchive(job, format, output);
+  archive.directory(outputDir, job.id);
+
+  // Le worker écrit le manifeste dans le dossier ; le générer pour les jobs plus anciens
+  if (!(await fs.pathExists(path.join(outputDir, MANIFEST_FILENAME)))) {
+    archive.append(JSON.stringify(buildManifest(job.prompts, job.results), null, 2), {
+      name: `${job.id}/${MANIFEST_FILENAME}`,
+    });
+  }
+
+  await archive.finalize();
+}
+
+// Archive de fichiers générés en mémoire (site HTML), sous le dossier `${jobId}-site`
+export async function streamFilesArchive(
+  job: Job,
+  files: Record<string, string>,
+  format: ArchiveFormat,
+  output: Writable
+): Promise<void> {
+  const archive = createArchive(job, format, output);
+
+  for (const [name, content] of Object.entries(files)) {
+    archive.append(content, { name: `${job.id}-site/${name}` });
+  }
+
+  await archive.finalize();
+}
+
+function createArchive(job: Job, format: ArchiveFormat, output: Writable) {
+  const archive =
+    format === 'zip'
+      ? archiver('zip', { zlib: { level: 9 } })
+      : archiver('tar', { gzip: true });
+
+  archive.on('warning', error => {
+    console.warn(`Archive warning for job ${job.id}:`, error);
+  });
+  archive.on('error', error => {
+    console.error(`Archive error for job ${job.id}:`, error);
+    output.destroy(error);
+  });
+
+  archive.pipe(output);
+  return archive;
+}
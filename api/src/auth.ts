@@ -0,0 +1,71 @@
+import { createHash } from 'crypto';
+import type { IncomingMessage } from 'http';
+import type { NextFunction, Request, Response } from 'express';
+
+// Propriétaire des jobs lorsque l'authentification est désactivée
+export const ANONYMOUS_USER = 'anonymous';
+
+// Authentification par token : API_TOKENS="alice:token1,bob:token2"
+export class Authenticator {
+  // Empreinte SHA-256 du token → identifiant utilisateur
+  private users = new Map<string, string>();
+
+  constructor(spec: string) {
+    for (const entry of spec.split(',')) {
+      const separator = entry.indexOf(':');
+      if (separator <= 0) continue;
+
+      const userId = entry.slice(0, separator).trim();
+      const token = entry.slice(separator + 1).trim();
+      if (userId && token) {
+        this.users.set(this.hash(token), userId);
+      }
+    }
+  }
+
+  static fromEnv(): Authenticator {
+    return new Authenticator(process.env.API_TOKENS || '');
+  }
+
+  get enabled(): boolean {
+    return this.users.size > 0;
+  }
+
+  // Retourne l'utilisateur associé au token, ou undefined s'il est invalide
+  authenticate(token: string | undefined): string | undefined {
+    if (!this.enabled) return ANONYMOUS_USER;
+    if (!token) return undefined;
+    return this.users.get(this.hash(token));
+  }
+
+  // Les navigateurs ne peuvent pas envoyer d'en-tête sur un upgrade WebSocket : `?token=` est alors accepté
+  authenticateRequest(req: IncomingMessage, allowQuery = false): string | undefined {
+    const header = req.headers.authorization;
+    if (header?.startsWith('Bearer ')) {
+      return this.authenticate(header.slice('Bearer '.length).trim());
+    }
+
+    if (allowQuery && req.url) {
+      const url = new URL(req.url, 'http://localhost');
+      return this.authenticate(url.searchParams.get('token') ?? undefined);
+    }
+
+    return this.authenticate(undefined);
+  }
+
+  middleware() {
+    return (req: Request, res: Response, next: NextFunction) => {
+      const userId = this.authenticateRequest(req);
+      if (!userId) {
+        return res.status(401).json({ error: 'Authentication required' });
+      }
+
+      res.locals.userId = userId;
+      next();
+    };
+  }
+
+  private hash(token: string): string {
+    return createHash('sha256').update(token).digest('hex');
+  }
+}
@@ -0,0 +1,61 @@
+import { createTwoFilesPatch, diffWordsWithSpace, structuredPatch } from 'diff';
+import type { DocumentVersion } from './documentStore.js';
+
+export const DIFF_FORMATS = ['unified', 'words'] as const;
+export type DiffFormat = (typeof DIFF_FORMATS)[number];
+
+export interface DiffHunk {
+  oldStart: number;
+  oldLines: number;
+  newStart: number;
+  newLines: number;
+  // Lignes préfixées par ' ' (contexte), '-' (supprimée) ou '+' (ajoutée)
+  lines: string[];
+}
+
+export interface WordChange {
+  value: string;
+  added?: boolean;
+  removed?: boolean;
+}
+
+export type VersionDiff =
+  | { format: 'unified'; patch: string; hunks: DiffHunk[] }
+  | { format: 'words'; changes: WordChange[] };
+
+function versionLabel(version: DocumentVersion): string {
+  return `${version.filename}@v${version.version}`;
+}
+
+// Diff entre deux versions : patch unifié (et ses blocs, pour un affichage côte à côte) ou mot à mot
+export function diffVersions(
+  from: DocumentVersion,
+  to: DocumentVersion,
+  format: DiffFormat,
+  context = 3
+): VersionDiff {
+  if (format === 'words') {
+    return {
+      format,
+      changes: diffWordsWithSpace(from.content, to.content).map(({ value, added, removed }) => ({
+        value,
+        added: added || undefined,
+        removed: removed || undefined,
+      })),
+    };
+  }
+
+  const oldName = versionLabel(from);
+  const newName = versionLabel(to);
+  const options = { context };
+
+  return {
+    format,
+    patch: createTwoFilesPatch(oldName, newName, from.content, to.content, undefined, undefined, options),
+    hunks: structuredPatch(oldName, newName, from.content, to.content, undefined, undefined, options).hunks.map(hunk => ({
+      ...hunk,
+      // Marqueurs « \ No newline at end of file » : sans intérêt pour l'affichage
+      lines: hunk.lines.filter(line => !line.startsWith('\\')),
+    })),
+  };
+}
@@ -0,0 +1,115 @@
+import { createHash } from 'crypto';
+import path from 'path';
+import fs from 'fs-extra';
+
+export interface DocumentVersion {
+  // Numéro à partir de 1, dans l'ordre de génération
+  version: number;
+  jobId: string;
+  filename: string;
+  model: string;
+  provider: string;
+  // Réponse générée (sans en-tête ni pied de page), conservée après le nettoyage des sorties du job
+  content: string;
+  createdAt: Date;
+}
+
+// Document suivi d'un job à l'autre : toutes les versions générées pour un même prompt
+export interface TrackedDocument {
+  id: string;
+  owner: string;
+  prompt: string;
+  versions: DocumentVersion[];
+  updatedAt: Date;
+}
+
+// Identité stable d'un prompt : même texte (aux espaces près) et même propriétaire
+export function documentId(owner: string, prompt: string): string {
+  const normalized = prompt.trim().replace(/\s+/g, ' ');
+  return createHash('sha256').update(`${owner}\n${normalized}`).digest('hex').slice(0, 16);
+}
+
+// Historique des versions par document : un fichier JSON par document
+export class DocumentStore {
+  private documents = new Map<string, TrackedDocument>();
+  private writes = new Map<string, Promise<void>>();
+  private dir: string;
+
+  constructor(dir: string) {
+    this.dir = dir;
+  }
+
+  async load(): Promise<void> {
+    await fs.ensureDir(this.dir);
+
+    const files = await fs.readdir(this.dir);
+    for (const file of files.filter((f: string) => f.endsWith('.json'))) {
+      try {
+        const data = await fs.readJson(path.join(this.dir, file));
+        data.updatedAt = new Date(data.updatedAt);
+        for (const version of data.versions) {
+          version.createdAt = new Date(version.createdAt);
+        }
+        this.documents.set(data.id, data);
+      } catch (error) {
+        console.error(`Error loading document file ${file}:`, error);
+      }
+    }
+
+    console.log(`📚 Loaded ${this.documents.size} documents from ${this.dir}`);
+  }
+
+  get(id: string): TrackedDocument | undefined {
+    return this.documents.get(id);
+  }
+
+  // Documents de l'utilisateur, du plus récemment régénéré au plus ancien
+  list(owner: string): TrackedDocument[] {
+    return [...this.documents.values()]
+      .filter(document => document.owner === owner)
+      .sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime());
+  }
+
+  // Ajoute une version ; une régénération identique à la dernière version n'en crée pas
+  record(
+    owner: string,
+    prompt: string,
+    version: Omit<DocumentVersion, 'version' | 'createdAt'>
+  ): DocumentVersion | undefined {
+    const id = documentId(owner, prompt);
+    const document = this.documents.get(id) ?? { id, owner, prompt, versions: [], updatedAt: new Date() };
+    const latest = document.versions[document.versions.length - 1];
+    if (latest?.content === version.content) return undefined;
+
+    const created: DocumentVersion = { ...version, version: document.versions.length + 1, createdAt: new Date() };
+    document.versions.push(created);
+    document.updatedAt = created.createdAt;
+
+    this.documents.set(id, document);
+    this.persist(id, JSON.stringify(document, null, 2));
+    return created;
+  }
+
+  // Écritures dans l'ordre pour un même document
+  private persist(id: string, snapshot: string): void {
+    const file = path.join(this.dir, `${id}.json`);
+    const previous = this.writes.get(id) ?? Promise.resolve();
+
+    const write = previous
+      .then(async () => {
+        // Écriture atomique : fichier temporaire puis renommage
+        await fs.outputFile(`${file}.tmp`, snapshot, 'utf-8');
+        await fs.rename(`${file}.tmp`, file);
+      })
+      .catch(error => {
+        console.error(`Error persisting document ${id}:`, error);
+      });
+
+    this.writes.set(id, write);
+    write.then(() => {
+      if (this.writes.get(id) === write) {
+        this.writes.delete(id);
+      }
+    });
+  }
+}
@@ -0,0 +1,237 @@
+import { execFile } from 'child_process';
+import os from 'os';
+import path from 'path';
+import { promisify } from 'util';
+import fs from 'fs-extra';
+import type { Job } from './jobStore.js';
+
+const exec = promisify(execFile);
+
+export interface GitExportOptions {
+  // Dossier cible dans le dépôt (défaut : EXPORT_PATH)
+  path?: string;
+  // Nouvelle branche créée pour l'export (défaut : docs/job-<id>)
+  branch?: string;
+}
+
+export interface GitExportResult {
+  // Absents quand les fichiers du dépôt étaient déjà à jour
+  branch?: string;
+  commit?: string;
+  path: string;
+  added: string[];
+  modified: string[];
+  unchanged: string[];
+  exportedAt: string;
+}
+
+// Export impossible : non configuré, options invalides ou branche existante
+export class GitExportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'GitExportError';
+  }
+}
+
+// Pied de page écrit par le worker : sa date change à chaque génération
+const GENERATED_FOOTER = /\n---\n\*Generated on [^\n]*\*\s*$/;
+
+const MAX_PROMPT_LENGTH = 100;
+
+export function parseGitExportOptions(value: unknown): GitExportOptions | undefined {
+  if (value === undefined) return undefined;
+  if (value === null || typeof value !== 'object' || Array.isArray(value)) {
+    throw new GitExportError('gitExport must be an object { path?, branch? }');
+  }
+
+  const { path: target, branch } = value as Record<string, unknown>;
+  if (target !== undefined && typeof target !== 'string') {
+    throw new GitExportError('gitExport.path must be a string');
+  }
+  if (branch !== undefined && typeof branch !== 'string') {
+    throw new GitExportError('gitExport.branch must be a string');
+  }
+
+  return {
+    path: target === undefined ? undefined : normalizeTargetPath(target),
+    branch,
+  };
+}
+
+// Chemin relatif à la racine du dépôt, sans sortir du dépôt ni viser .git
+function normalizeTargetPath(target: string): string {
+  const normalized = path.posix.normalize(target.replace(/\\/g, '/')).replace(/^\.\/|\/+$/g, '');
+  if (
+    !normalized ||
+    path.posix.isAbsolute(normalized) ||
+    normalized === '..' ||
+    normalized.startsWith('../') ||
+    normalized.split('/').includes('.git')
+  ) {
+    throw new GitExportError(`Invalid export path: ${target}`);
+  }
+  return normalized === '.' ? '' : normalized;
+}
+
+// Copie des fichiers d'un job dans un dépôt git local, sur une nouvelle branche, via un worktree temporaire
+export class GitExporter {
+  private repo?: string;
+  private defaultPath: string;
+  private baseBranch?: string;
+  private author: { name: string; email: string };
+  // Les commandes git d'un même dépôt ne doivent pas s'entrelacer (verrous d'index et de refs)
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(
+    repo: string | undefined,
+    defaultPath = 'docs',
+    baseBranch?: string,
+    author = { name: 'Claude Doc Bot', email: 'doc-bot@localhost' }
+  ) {
+    this.repo = repo;
+    this.defaultPath = normalizeTargetPath(defaultPath);
+    this.baseBranch = baseBranch;
+    this.author = author;
+  }
+
+  static fromEnv(): GitExporter {
+    return new GitExporter(
+      process.env.EXPORT_REPO ? path.resolve(process.env.EXPORT_REPO) : undefined,
+      process.env.EXPORT_PATH || 'docs',
+      process.env.EXPORT_BASE_BRANCH || undefined,
+      {
+        name: process.env.EXPORT_AUTHOR_NAME || 'Claude Doc Bot',
+        email: process.env.EXPORT_AUTHOR_EMAIL || 'doc-bot@localhost',
+      }
+    );
+  }
+
+  get enabled(): boolean {
+    return this.repo !== undefined;
+  }
+
+  export(job: Job, outputDir: string, options: GitExportOptions = {}): Promise<GitExportResult> {
+    const run = this.queue.then(() => this.exportNow(job, outputDir, options));
+    this.queue = run.catch(() => undefined);
+    return run;
+  }
+
+  private async exportNow(job: Job, outputDir: string, options: GitExportOptions): Promise<GitExportResult> {
+    const repo = this.repo;
+    if (!repo) {
+      throw new GitExportError('Git export is not configured (set EXPORT_REPO)');
+    }
+
+    const files = job.results
+      .filter(result => result?.success && result.filename)
+      .map(result => result.filename as string);
+    if (files.length === 0) {
+      throw new GitExportError('Job has no generated files to export');
+    }
+    for (const file of files) {
+      if (!(await fs.pathExists(path.join(outputDir, file)))) {
+        throw new GitExportError(`Output ${file} no longer exists (outputs are cleaned up one hour after completion)`);
+      }
+    }
+
+    const target = options.path ?? this.defaultPath;
+    const branch = options.branch ?? `docs/job-${job.id.slice(0, 8)}`;
+    await this.git(repo, ['check-ref-format', '--branch', branch]).catch(() => {
+      throw new GitExportError(`Invalid branch name: ${branch}`);
+    });
+    const exists = await this.git(repo, ['rev-parse', '--verify', '--quiet', `refs/heads/${branch}`])
+      .then(() => true, () => false);
+    if (exists) {
+      throw new GitExportError(`Branch ${branch} already exists`);
+    }
+
+    const worktree = await fs.mkdtemp(path.join(os.tmpdir(), 'doc-bot-export-'));
+    await this.git(repo, ['worktree', 'add', '--quiet', '-b', branch, worktree, this.baseBranch ?? 'HEAD']);
+
+    try {
+      const result: GitExportResult = {
+        path: target,
+        added: [],
+        modified: [],
+        unchanged: [],
+        exportedAt: new Date().toISOString(),
+      };
+
+      for (const file of files) {
+        const destination = path.join(worktree, target, file);
+        const content = await fs.readFile(path.join(outputDir, file), 'utf-8');
+
+        if (await fs.pathExists(destination)) {
+          // Même contenu au pied de page près : garder le fichier existant pour un diff minimal
+          const existing = await fs.readFile(destination, 'utf-8');
+          if (existing.replace(GENERATED_FOOTER, '') === content.replace(GENERATED_FOOTER, '')) {
+            result.unchanged.push(file);
+            continue;
+          }
+          result.modified.push(file);
+        } else {
+          result.added.push(file);
+        }
+
+        await fs.outputFile(destination, content, 'utf-8');
+      }
+
+      if (result.added.length + result.modified.length === 0) {
+        // Rien à committer : la branche vide est supprimée après le retrait du worktree
+        await this.removeWorktree(repo, worktree);
+        await this.git(repo, ['branch', '-D', branch]);
+        return result;
+      }
+
+      await this.git(worktree, ['add', '--', ...[...result.added, ...result.modified].map(file => path.posix.join(target, file))]);
+      await this.git(worktree, ['commit', '--quiet', '-m', this.commitMessage(job, target, files.length)]);
+
+      result.branch = branch;
+      result.commit = (await this.git(worktree, ['rev-parse', 'HEAD'])).trim();
+      return result;
+    } finally {
+      await this.removeWorktree(repo, worktree);
+    }
+  }
+
+  private commitMessage(job: Job, target: string, fileCount: number): string {
+    const prompts = job.prompts.map((prompt, index) => {
+      const line = prompt.split('\n')[0].trim();
+      const summary = line.length > MAX_PROMPT_LENGTH ? `${line.slice(0, MAX_PROMPT_LENGTH - 1)}…` : line;
+      const filename = job.results[index]?.filename;
+      return `${index + 1}. ${summary}${filename ? ` → ${filename}` : ''}`;
+    });
+
+    return [
+      `docs: export ${fileCount} generated files to ${target || '/'}`,
+      '',
+      `Model: ${job.generation.model}${job.generation.provider ? ` (${job.generation.provider})` : ''}`,
+      `Job: ${job.id}`,
+      '',
+      'Prompts:',
+      ...prompts,
+    ].join('\n');
+  }
+
+  private async removeWorktree(repo: string, worktree: string): Promise<void> {
+    if (!(await fs.pathExists(worktree))) return;
+    await this.git(repo, ['worktree', 'remove', '--force', worktree]).catch(error => {
+      console.error(`Error removing export worktree ${worktree}:`, error);
+    });
+    await fs.remove(worktree);
+  }
+
+  private async git(cwd: string, args: string[]): Promise<string> {
+    const { stdout } = await exec('git', args, {
+      cwd,
+      env: {
+        ...process.env,
+        GIT_AUTHOR_NAME: this.author.name,
+        GIT_AUTHOR_EMAIL: this.author.email,
+        GIT_COMMITTER_NAME: this.author.name,
+        GIT_COMMITTER_EMAIL: this.author.email,
+      },
+    });
+    return stdout;
+  }
+}
@@ -0,0 +1,206 @@
+import path from 'path';
+import fs from 'fs-extra';
+import {
+  CacheMode,
+  defaultGenerationSettings,
+  GenerationSettings,
+  JobResult,
+  TemplateRow,
+  TokenUsage,
+  UsageSummary,
+} from '@claude-doc-bot/worker';
+import { ANONYMOUS_USER } from './auth.js';
+import type { GitExportOptions, GitExportResult } from './gitExport.js';
+import type { WebhookDelivery, WebhookSubscription } from './webhooks.js';
+
+export type JobStatus =
+  | 'pending'
+  | 'running'
+  | 'completed'
+  | 'failed'
+  | 'interrupted'
+  | 'paused'
+  | 'cancelled';
+
+export const JOB_STATUSES: JobStatus[] = [
+  'pending',
+  'running',
+  'completed',
+  'failed',
+  'interrupted',
+  'paused',
+  'cancelled',
+];
+
+export interface Job {
+  id: string;
+  // Identifiant de l'utilisateur qui a lancé le job
+  owner: string;
+  status: JobStatus;
+  progress: number;
+  total: number;
+  currentTask: string;
+  prompts: string[];
+  // Variables de chaque prompt quand le job vient d'un template + jeu de données
+  variables?: TemplateRow[];
+  filenameTemplate?: string;
+  // Code source envoyé via /api/sources et globs de sélection
+  sources?: { id: string; include?: string[] };
+  // Utilisation du cache de réponses (défaut : use)
+  cache?: CacheMode;
+  // Planification qui a lancé le job
+  scheduleId?: string;
+  // URL notifiées des évènements du job, en plus de WEBHOOK_URLS
+  webhooks?: WebhookSubscription[];
+  // Journal des envois de webhooks, un élément par évènement et destinataire
+  webhookDeliveries?: WebhookDelivery[];
+  // Export automatique vers le dépôt git configuré une fois le job terminé
+  gitExport?: GitExportOptions;
+  // Exports git réalisés (automatique ou via POST /api/export/:jobId)
+  exports?: GitExportResult[];
+  // Modèle et paramètres de génération utilisés pour ce job
+  generation: GenerationSettings;
+  // Indexés par position du prompt, les trous correspondent aux prompts non traités
+  results: JobResult[];
+  // Tokens des tests de connexion (un par exécution ou reprise)
+  initUsage?: TokenUsage;
+  // Totaux et coût estimé : tests de connexion + tous les prompts
+  usage?: UsageSummary;
+  createdAt: Date;
+  completedAt?: Date;
+  error?: string;
+}
+
+// Demande de job validée : prompts (défaut : prompts de démo), paramètres et options
+export interface JobRequest {
+  prompts?: string[];
+  generation: Partial<GenerationSettings>;
+  batch: Pick<Job, 'variables' | 'filenameTemplate' | 'sources' | 'cache' | 'webhooks' | 'gitExport'>;
+}
+
+// Filtres de l'historique des jobs d'un utilisateur
+export interface JobQuery {
+  owner: string;
+  statuses?: JobStatus[];
+  // Bornes sur la date de création : from incluse, to exclue
+  from?: Date;
+  to?: Date;
+  // Recherche insensible à la casse dans les prompts
+  text?: string;
+  offset: number;
+  limit: number;
+}
+
+// Stockage durable des jobs : un fichier JSON par job, rechargé au démarrage
+export class JobStore {
+  private jobs = new Map<string, Job>();
+  private writes = new Map<string, Promise<void>>();
+  private dir: string;
+
+  constructor(dir: string) {
+    this.dir = dir;
+  }
+
+  async load(): Promise<void> {
+    await fs.ensureDir(this.dir);
+
+    const files = await fs.readdir(this.dir);
+    for (const file of files.filter((f: string) => f.endsWith('.json'))) {
+      try {
+        const data = await fs.readJson(path.join(this.dir, file));
+        const job: Job = {
+          ...data,
+          owner: data.owner ?? ANONYMOUS_USER,
+          prompts: data.prompts ?? [],
+          generation: { ...defaultGenerationSettings(), ...data.generation },
+          results: data.results ?? [],
+          createdAt: new Date(data.createdAt),
+          completedAt: data.completedAt ? new Date(data.completedAt) : undefined,
+        };
+        this.jobs.set(job.id, job);
+      } catch (error) {
+        console.error(`Error loading job file ${file}:`, error);
+      }
+    }
+
+    // Les jobs en cours lors de l'arrêt précédent ne tournent plus
+    for (const job of this.jobs.values()) {
+      if (job.status === 'running' || job.status === 'pending') {
+        this.update(job.id, {
+          status: 'interrupted',
+          currentTask: 'Interrupted by server restart',
+        });
+      }
+    }
+
+    console.log(`💾 Loaded ${this.jobs.size} jobs from ${this.dir}`);
+  }
+
+  get(id: string): Job | undefined {
+    return this.jobs.get(id);
+  }
+
+  list(): Job[] {
+    return [...this.jobs.values()];
+  }
+
+  // Page de jobs filtrés, du plus récent au plus ancien, et nombre total de correspondances
+  query(query: JobQuery): { jobs: Job[]; total: number } {
+    const text = query.text?.toLowerCase();
+    const matches = this.list()
+      .filter(job => job.owner === query.owner)
+      .filter(job => !query.statuses || query.statuses.includes(job.status))
+      .filter(job => !query.from || job.createdAt >= query.from)
+      .filter(job => !query.to || job.createdAt < query.to)
+      .filter(job => !text || job.prompts.some(prompt => prompt.toLowerCase().includes(text)))
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+
+    return {
+      jobs: matches.slice(query.offset, query.offset + query.limit),
+      total: matches.length,
+    };
+  }
+
+  create(job: Job): void {
+    this.jobs.set(job.id, job);
+    this.persist(job);
+  }
+
+  update(id: string, updates: Partial<Job>): Job | undefined {
+    const job = this.jobs.get(id);
+    if (!job) return undefined;
+
+    Object.assign(job, updates);
+    this.persist(job);
+    return job;
+  }
+
+  // Attend la fin de toutes les écritures en attente
+  async flush(): Promise<void> {
+    await Promise.all(this.writes.values());
+  }
+
+  private persist(job: Job): void {
+    // Sérialiser immédiatement pour figer l'état, puis écrire dans l'ordre
+    const snapshot = JSON.stringify(job, null, 2);
+    const file = path.join(this.dir, `${job.id}.json`);
+    const previous = this.writes.get(job.id) ?? Promise.resolve();
+
+    const write = previous
+      .then(async () => {
+        // Écriture atomique : fichier temporaire puis renommage
+        await fs.outputFile(`${file}.tmp`, snapshot, 'utf-8');
+        await fs.rename(`${file}.tmp`, file);
+      })
+      .catch(error => {
+        console.error(`Error persisting job ${job.id}:`, error);
+      });
+
+    this.writes.set(job.id, write);
+    write.then(() => {
+      if (this.writes.get(job.id) === write) {
+        this.writes.delete(job.id);
+      }
+    });
+  }
+}
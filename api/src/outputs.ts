@@ -0,0 +1,41 @@
+import path from 'path';
+
+// Dossier racine des fichiers générés, un sous-dossier par job
+export const OUTPUTS_DIR = path.resolve('../outputs');
+
+const CONTENT_TYPES: Record<string, string> = {
+  '.md': 'text/markdown; charset=utf-8',
+  '.txt': 'text/plain; charset=utf-8',
+  '.json': 'application/json; charset=utf-8',
+  '.html': 'text/html; charset=utf-8',
+  '.css': 'text/css; charset=utf-8',
+  '.js': 'text/javascript; charset=utf-8',
+  '.zip': 'application/zip',
+  '.gz': 'application/gzip',
+};
+
+export function getJobOutputDir(jobId: string): string {
+  return path.join(OUTPUTS_DIR, jobId);
+}
+
+// Résout un fichier du job, ou null s'il sort du dossier du job
+export function resolveOutputPath(jobId: string, filename: string): string | null {
+  const jobDir = getJobOutputDir(jobId);
+  const filePath = path.resolve(jobDir, filename);
+  const relative = path.relative(jobDir, filePath);
+
+  if (!relative || relative.startsWith('..') || path.isAbsolute(relative)) {
+    return null;
+  }
+
+  return filePath;
+}
+
+export function contentTypeFor(filename: string): string {
+  return CONTENT_TYPES[path.extname(filename).toLowerCase()] ?? 'application/octet-stream';
+}
+
+// Chemin public d'un fichier, tel qu'il est signé et servi
+export function outputUrlPath(jobId: string, filename: string): string {
+  return `/outputs/${jobId}/${encodeURIComponent(filename)}`;
+}
@@ -0,0 +1,108 @@
+import path from 'path';
+import fs from 'fs-extra';
+import type { JobRequest } from './jobStore.js';
+
+export interface Schedule {
+  id: string;
+  // Utilisateur qui a créé la planification ; les jobs sont lancés en son nom
+  owner: string;
+  name: string;
+  // Expression cron à 5 champs, ex. "0 2 * * *" (tous les jours à 2h)
+  cron: string;
+  // Fuseau IANA de l'expression (défaut : fuseau du serveur)
+  timezone?: string;
+  job: JobRequest;
+  createdAt: Date;
+  nextRunAt?: Date;
+  lastRunAt?: Date;
+  lastJobId?: string;
+  // Dernier déclenchement sauté car le job précédent tournait encore
+  lastSkippedAt?: Date;
+}
+
+const DATE_FIELDS = ['createdAt', 'nextRunAt', 'lastRunAt', 'lastSkippedAt'] as const;
+
+// Stockage durable des planifications : un fichier JSON par planification
+export class ScheduleStore {
+  private schedules = new Map<string, Schedule>();
+  private writes = new Map<string, Promise<void>>();
+  private dir: string;
+
+  constructor(dir: string) {
+    this.dir = dir;
+  }
+
+  async load(): Promise<void> {
+    await fs.ensureDir(this.dir);
+
+    const files = await fs.readdir(this.dir);
+    for (const file of files.filter((f: string) => f.endsWith('.json'))) {
+      try {
+        const data = await fs.readJson(path.join(this.dir, file));
+        for (const field of DATE_FIELDS) {
+          if (data[field]) data[field] = new Date(data[field]);
+        }
+        this.schedules.set(data.id, data);
+      } catch (error) {
+        console.error(`Error loading schedule file ${file}:`, error);
+      }
+    }
+
+    console.log(`⏰ Loaded ${this.schedules.size} schedules from ${this.dir}`);
+  }
+
+  get(id: string): Schedule | undefined {
+    return this.schedules.get(id);
+  }
+
+  list(): Schedule[] {
+    return [...this.schedules.values()];
+  }
+
+  create(schedule: Schedule): void {
+    this.schedules.set(schedule.id, schedule);
+    this.persist(schedule.id, JSON.stringify(schedule, null, 2));
+  }
+
+  update(id: string, updates: Partial<Schedule>): Schedule | undefined {
+    const schedule = this.schedules.get(id);
+    if (!schedule) return undefined;
+
+    Object.assign(schedule, updates);
+    this.persist(id, JSON.stringify(schedule, null, 2));
+    return schedule;
+  }
+
+  delete(id: string): boolean {
+    if (!this.schedules.delete(id)) return false;
+    this.persist(id, null);
+    return true;
+  }
+
+  // Écritures dans l'ordre ; null supprime le fichier
+  private persist(id: string, snapshot: string | null): void {
+    const file = path.join(this.dir, `${id}.json`);
+    const previous = this.writes.get(id) ?? Promise.resolve();
+
+    const write = previous
+      .then(async () => {
+        if (snapshot === null) {
+          await fs.remove(file);
+          return;
+        }
+        // Écriture atomique : fichier temporaire puis renommage
+        await fs.outputFile(`${file}.tmp`, snapshot, 'utf-8');
+        await fs.rename(`${file}.tmp`, file);
+      })
+      .catch(error => {
+        console.error(`Error persisting schedule ${id}:`, error);
+      });
+
+    this.writes.set(id, write);
+    write.then(() => {
+      if (this.writes.get(id) === write) {
+        this.writes.delete(id);
+      }
+    });
+  }
+}
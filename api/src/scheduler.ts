@@ -0,0 +1,96 @@
+import cronParser from 'cron-parser';
+import type { Schedule, ScheduleStore } from './scheduleStore.js';
+
+// Expression cron ou fuseau horaire invalide fourni par l'utilisateur
+export class ScheduleError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ScheduleError';
+  }
+}
+
+// Précision des déclenchements : les planifications dues sont vérifiées à cet intervalle
+const TICK_MS = 15000;
+
+// Prochaine exécution strictement après `from`
+export function nextRun(cron: string, timezone?: string, from: Date = new Date()): Date {
+  if (timezone !== undefined) {
+    try {
+      new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    } catch {
+      throw new ScheduleError(`Unknown timezone: ${timezone}`);
+    }
+  }
+
+  if (cron.trim().split(/\s+/).length !== 5) {
+    throw new ScheduleError('cron must have 5 fields: minute hour day-of-month month day-of-week');
+  }
+
+  try {
+    return cronParser.parseExpression(cron, { currentDate: from, tz: timezone }).next().toDate();
+  } catch (error) {
+    throw new ScheduleError(`Invalid cron expression: ${error instanceof Error ? error.message : error}`);
+  }
+}
+
+// Déclenche les planifications dues ; un job encore en cours fait sauter le déclenchement
+export class Scheduler {
+  private store: ScheduleStore;
+  private launch: (schedule: Schedule) => string;
+  private isRunning: (jobId: string) => boolean;
+  private timer?: NodeJS.Timeout;
+
+  constructor(
+    store: ScheduleStore,
+    launch: (schedule: Schedule) => string,
+    isRunning: (jobId: string) => boolean
+  ) {
+    this.store = store;
+    this.launch = launch;
+    this.isRunning = isRunning;
+  }
+
+  start(): void {
+    // Les exécutions manquées pendant un arrêt du serveur ne sont pas rattrapées
+    const now = new Date();
+    for (const schedule of this.store.list()) {
+      if (!schedule.nextRunAt || schedule.nextRunAt < now) {
+        this.store.update(schedule.id, { nextRunAt: nextRun(schedule.cron, schedule.timezone, now) });
+      }
+    }
+
+    this.timer = setInterval(() => this.tick(), TICK_MS);
+  }
+
+  stop(): void {
+    clearInterval(this.timer);
+  }
+
+  private tick(): void {
+    const now = new Date();
+    for (const schedule of this.store.list()) {
+      if (schedule.nextRunAt && schedule.nextRunAt <= now) {
+        this.fire(schedule, now);
+      }
+    }
+  }
+
+  private fire(schedule: Schedule, now: Date): void {
+    const nextRunAt = nextRun(schedule.cron, schedule.timezone, now);
+
+    if (schedule.lastJobId && this.isRunning(schedule.lastJobId)) {
+      console.warn(`⏭️ Schedule "${schedule.name}" skipped: job ${schedule.lastJobId} is still running`);
+      this.store.update(schedule.id, { nextRunAt, lastSkippedAt: now });
+      return;
+    }
+
+    try {
+      const jobId = this.launch(schedule);
+      console.log(`⏰ Schedule "${schedule.name}" started job ${jobId}`);
+      this.store.update(schedule.id, { nextRunAt, lastRunAt: now, lastJobId: jobId });
+    } catch (error) {
+      console.error(`❌ Schedule "${schedule.name}" failed to start a job:`, error);
+      this.store.update(schedule.id, { nextRunAt });
+    }
+  }
+}
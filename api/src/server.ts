@@ -1,84 +1,190 @@
-import express, { Application } from 'express';
+import express, { Application, Request, Response } from 'express';
 import cors from 'cors';
-import { WebSocketServer } from 'ws';
+import { WebSocket, WebSocketServer } from 'ws';
 import { createServer } from 'http';
 import { v4 as uuidv4 } from 'uuid';
 import path from 'path';
 import fs from 'fs-extra';
-import { ClaudeWorker } from '@claude-doc-bot/worker';
-
-interface Job {
-  id: string;
-  status: 'pending' | 'running' | 'completed' | 'failed';
-  progress: number;
-  total: number;
-  currentTask: string;
-  results: any[];
-  createdAt: Date;
-  completedAt?: Date;
-  error?: string;
+import {
+  addUsage,
+  assignFilenames,
+  buildManifest,
+  CacheError,
+  ClaudeWorker,
+  defaultGenerationSettings,
+  emptyUsage,
+  estimateCost,
+  expandTemplateSource,
+  ExpandedPrompt,
+  filenamePatternFor,
+  formatFinding,
+  GenerationSettings,
+  JobResult,
+  GenerationSettingsError,
+  parseCacheMode,
+  parseGenerationSettings,
+  RateLimiter,
+  ResponseCache,
+  parseSourceFiles,
+  readManifest,
+  readSourceArchive,
+  SourceArchiveFormat,
+  SourceError,
+  summarizeUsage,
+  TemplateError,
+  TemplateRow,
+  TemplateSource,
+  TokenUsage,
+  UsageSummary,
+  validateFilenamePattern,
+} from '@claude-doc-bot/worker';
+import { JOB_STATUSES, Job, JobRequest, JobStatus, JobStore } from './jobStore.js';
+import { SourceStore } from './sourceStore.js';
+import { DocumentStore, documentId, TrackedDocument } from './documentStore.js';
+import { DIFF_FORMATS, DiffFormat, diffVersions } from './documentDiff.js';
+import { Schedule, ScheduleStore } from './scheduleStore.js';
+import { ScheduleError, Scheduler, nextRun } from './scheduler.js';
+import { Authenticator } from './auth.js';
+import {
+  contentTypeFor,
+  getJobOutputDir,
+  outputUrlPath,
+  resolveOutputPath,
+} from './outputs.js';
+import { UrlSigner } from './signedUrls.js';
+import {
+  GitExporter,
+  GitExportError,
+  GitExportOptions,
+  GitExportResult,
+  parseGitExportOptions,
+} from './gitExport.js';
+import {
+  parseWebhooks,
+  WebhookDelivery,
+  WebhookDispatcher,
+  WebhookError,
+  WebhookEvent,
+  WebhookSubscription,
+} from './webhooks.js';
+import {
+  ARCHIVE_CONTENT_TYPES,
+  ARCHIVE_FORMATS,
+  ArchiveFormat,
+  streamArchive,
+  streamFilesArchive,
+} from './archive.js';
+import {
+  loadSiteDocuments,
+  renderSite,
+  renderSitePage,
+  SITE_CONTENT_SECURITY_POLICY,
+  SITE_INDEX,
+} from './site.js';
+
+// Abonnements d'une connexion WebSocket : jobs suivis ou opt-in global
+interface Subscription {
+  userId: string;
+  jobIds: Set<string>;
+  all: boolean;
+}
+
+interface JobControl {
+  abort: AbortController;
+  pauseRequested: boolean;
 }
 
 class JobManager {
-  private jobs = new Map<string, Job>();
-  private wss: WebSocketServer;
+  private store: JobStore;
+  private sourceStore: SourceStore;
+  private documentStore: DocumentStore;
+  private controls = new Map<string, JobControl>();
+  private subscriptions = new Map<WebSocket, Subscription>();
+  // Limites de débit de l'API Claude partagées par tous les jobs
+  private rateLimiter = RateLimiter.fromEnv();
+  // Cache des réponses partagé par tous les jobs
+  private responseCache = new ResponseCache(path.resolve(process.env.CLAUDE_CACHE_DIR || '../data/cache'));
+  // Webhooks globaux (WEBHOOK_URLS) et signature des envois
+  private webhooks = WebhookDispatcher.fromEnv();
+  // Dépôt git local où exporter les fichiers générés (EXPORT_REPO)
+  private gitExporter = GitExporter.fromEnv();
 
-  constructor(wss: WebSocketServer) {
-    this.wss = wss;
+  constructor(store: JobStore, sourceStore: SourceStore, documentStore: DocumentStore) {
+    this.store = store;
+    this.sourceStore = sourceStore;
+    this.documentStore = documentStore;
   }
 
-  createJob(): string {
+  async init(): Promise<void> {
+    await this.store.load();
+    await this.documentStore.load();
+  }
+
+  createJob(
+    owner: string,
+    generation: Partial<GenerationSettings> = {},
+    batch: JobRequest['batch'] & Pick<Job, 'scheduleId'> = {}
+  ): string {
     const id = uuidv4();
     const job: Job = {
       id,
+      owner,
+      generation: { ...defaultGenerationSettings(), ...generation },
+      ...batch,
       status: 'pending',
       progress: 0,
       total: 0,
       currentTask: '',
+      prompts: [],
       results: [],
       createdAt: new Date(),
     };
 
-    this.jobs.set(id, job);
+    this.store.create(job);
     return id;
   }
 
   getJob(id: string): Job | undefined {
-    return this.jobs.get(id);
+    return this.store.get(id);
   }
 
   updateJob(id: string, updates: Partial<Job>): void {
-    const job = this.jobs.get(id);
+    const job = this.store.update(id, updates);
     if (!job) return;
 
-    Object.assign(job, updates);
-    this.jobs.set(id, job);
-
     // Diffuser la mise à jour via WebSocket
-    this.broadcast({
+    this.broadcast(id, {
       type: 'job_update',
-      job: {
-        id: job.id,
-        status: job.status,
-        progress: job.progress,
-        total: job.total,
-        currentTask: job.currentTask,
-        completedAt: job.completedAt,
-        error: job.error,
-      },
+      job: this.summarize(job),
     });
   }
 
   async runJob(id: string, customPrompts?: string[]): Promise<void> {
-    const job = this.jobs.get(id);
+    const job = this.store.get(id);
     if (!job) throw new Error('Job not found');
 
+    const control: JobControl = {
+      abort: new AbortController(),
+      pauseRequested: false,
+    };
+    this.controls.set(id, control);
+
     try {
-      this.updateJob(id, { status: 'running', currentTask: 'Initializing...' });
+      this.updateJob(id, {
+        status: 'running',
+        currentTask: 'Initializing...',
+        error: undefined,
+        completedAt: undefined,
+      });
+      this.notify(id, 'job.started', { resumed: job.prompts.length > 0 });
 
       let prompts: string[];
 
-      if (customPrompts && customPrompts.length > 0) {
+      if (job.prompts.length > 0) {
+        // Reprise d'un job interrompu ou en pause : reprendre au premier prompt non terminé
+        prompts = job.prompts;
+        this.updateJob(id, { currentTask: 'Resuming interrupted job...' });
+      } else if (customPrompts && customPrompts.length > 0) {
         // Utiliser les prompts personnalisés
         prompts = customPrompts;
         this.updateJob(id, { currentTask: 'Using custom prompts...' });
@@ -105,20 +211,43 @@ class JobManager {
         }
       }
 
-      this.updateJob(id, { total: prompts.length });
+      this.updateJob(id, { prompts, total: prompts.length });
+
+      // Code source joint au job, chargé une fois pour tous les prompts
+      const sources = job.sources ? await this.sourceStore.get(job.sources.id) : undefined;
+      if (job.sources && !sources) {
+        throw new Error(`Source bundle ${job.sources.id} not found`);
+      }
 
       // Initialiser le worker Claude
-      const worker = new ClaudeWorker();
-      await worker.init();
+      const worker = new ClaudeWorker(job.generation.provider);
+      const initUsage = addUsage(job.initUsage ?? emptyUsage(), await worker.init(job.generation.model));
+      this.updateJob(id, { initUsage, usage: this.jobUsage(job, job.results, initUsage) });
+
+      if (control.abort.signal.aborted) {
+        this.finishCancelled(id);
+        return;
+      }
 
       try {
         // Créer un dossier unique pour ce job
-        const jobOutputDir = path.resolve('../outputs', id);
+        const jobOutputDir = getJobOutputDir(id);
         await fs.ensureDir(jobOutputDir);
 
         const results = await worker.runJob({
           prompts,
           outputDir: jobOutputDir,
+          variables: job.variables,
+          filenameTemplate: job.filenameTemplate,
+          generation: job.generation,
+          sources: sources?.files,
+          sourceInclude: job.sources?.include,
+          cache: this.responseCache,
+          cacheMode: job.cache,
+          previousResults: job.results,
+          signal: control.abort.signal,
+          shouldStop: () => control.pauseRequested,
+          rateLimiter: this.rateLimiter,
           onProgress: (current, total, status) => {
             this.updateJob(id, {
               progress: current,
@@ -127,45 +256,154 @@ class JobManager {
             });
             
             // Log détaillé via WebSocket
-            this.broadcast({
+            this.broadcast(id, {
               type: 'log',
               message: `[${current}/${total}] ${status}`,
               timestamp: new Date().toISOString(),
             });
           },
+          onRetry: (index, info) => {
+            this.broadcast(id, {
+              type: 'log',
+              message: `🔁 Prompt ${index + 1}/${prompts.length}: ${info.errorClass} (${info.message}), retry ${info.attempt}/${info.maxAttempts - 1} in ${(info.delayMs / 1000).toFixed(1)}s`,
+              timestamp: new Date().toISOString(),
+            });
+          },
+          onChunk: (index, delta, offset) => {
+            this.broadcast(id, {
+              type: 'stream_chunk',
+              index,
+              prompt: offset === 0 ? prompts[index] : undefined,
+              delta,
+              offset,
+            });
+          },
+          onResult: (index, result) => {
+            // Persister chaque résultat dès qu'il est disponible
+            const results = [...(this.getJob(id)?.results ?? [])];
+            results[index] = result;
+            this.updateJob(id, { results, usage: this.jobUsage(job, results) });
+
+            this.broadcast(id, {
+              type: 'stream_end',
+              index,
+              success: result.success,
+              truncated: result.truncated,
+            });
+
+            if (result.success) {
+              // Nouvelle version du document suivi pour ce prompt, sauf si la réponse n'a pas changé
+              const version = this.documentStore.record(job.owner, result.prompt, {
+                jobId: id,
+                filename: result.filename,
+                model: job.generation.model,
+                provider: job.generation.provider,
+                content: result.response,
+              });
+              if (version && version.version > 1) {
+                this.broadcast(id, {
+                  type: 'log',
+                  message: `📚 Prompt ${index + 1}/${prompts.length}: version ${version.version} of ${result.filename}`,
+                  timestamp: new Date().toISOString(),
+                });
+              }
+            } else {
+              this.notify(id, 'prompt.failed', {
+                prompt: { index, text: prompts[index], error: result.error },
+              });
+            }
+
+            if (result.cached) {
+              this.broadcast(id, {
+                type: 'log',
+                message: `💾 Prompt ${index + 1}/${prompts.length} served from cache (no API call)`,
+                timestamp: new Date().toISOString(),
+              });
+            }
+
+            if (result.findings?.length) {
+              this.broadcast(id, {
+                type: 'log',
+                message: `🔎 Prompt ${index + 1}/${prompts.length}: ${result.findings.length} quality issues${result.repaired ? ' left after repair' : ''} (${result.findings.map(formatFinding).join('; ')})`,
+                timestamp: new Date().toISOString(),
+              });
+            } else if (result.repaired) {
+              this.broadcast(id, {
+                type: 'log',
+                message: `🩹 Prompt ${index + 1}/${prompts.length}: quality issues repaired`,
+                timestamp: new Date().toISOString(),
+              });
+            }
+
+            if (result.truncated) {
+              this.broadcast(id, {
+                type: 'log',
+                message: `⚠️ Prompt ${index + 1}/${prompts.length} is still truncated (max_tokens reached after ${job.generation.maxContinuations} continuations)`,
+                timestamp: new Date().toISOString(),
+              });
+            }
+          },
         });
 
+        // Pause ou annulation arrivée pendant le dernier prompt : le job est tout de même terminé
+        const done = results.filter(Boolean).length;
+        const finished = done === prompts.length;
+
+        if (!finished && control.abort.signal.aborted) {
+          this.finishCancelled(id);
+          this.scheduleCleanup(id, jobOutputDir);
+          return;
+        }
+
+        if (!finished && control.pauseRequested) {
+          this.updateJob(id, {
+            status: 'paused',
+            currentTask: `Paused after ${done}/${prompts.length} prompts`,
+          });
+          this.broadcast(id, {
+            type: 'log',
+            message: `⏸️ Job paused after ${done}/${prompts.length} prompts`,
+            timestamp: new Date().toISOString(),
+          });
+          return;
+        }
+
         this.updateJob(id, {
           status: 'completed',
           progress: prompts.length,
           currentTask: 'Completed successfully',
           results,
+          usage: this.jobUsage(job, results),
           completedAt: new Date(),
         });
 
         // Envoyer le résumé final
         const successful = results.filter(r => r.success).length;
-        this.broadcast({
+        this.broadcast(id, {
           type: 'job_completed',
           message: `✨ Job completed: ${successful}/${results.length} prompts processed successfully`,
           results,
         });
+        this.notify(id, 'job.completed');
+
+        if (job.gitExport) {
+          this.exportJob(id, job.gitExport).catch(() => {
+            // Erreur déjà diffusée dans les logs du job
+          });
+        }
 
-        // Auto-cleanup après 1 heure (3600000 ms)
-        setTimeout(async () => {
-          try {
-            await fs.remove(jobOutputDir);
-            console.log(`🧹 Auto-cleaned job ${id} outputs`);
-          } catch (error) {
-            console.error(`Error cleaning job ${id}:`, error);
-          }
-        }, 3600000); // 1 heure
+        this.scheduleCleanup(id, jobOutputDir);
 
       } finally {
         await worker.cleanup();
       }
 
     } catch (error) {
+      if (control.abort.signal.aborted) {
+        this.finishCancelled(id);
+        return;
+      }
+
       console.error('Error executing job:', error);
       this.updateJob(id, {
         status: 'failed',
@@ -174,16 +412,212 @@ class JobManager {
         completedAt: new Date(),
       });
 
-      this.broadcast({
+      this.broadcast(id, {
         type: 'job_failed',
         message: error instanceof Error ? error.message : 'Unknown error',
       });
+      this.notify(id, 'job.failed');
+    } finally {
+      this.controls.delete(id);
+    }
+  }
+
+  isActive(id: string): boolean {
+    return this.controls.has(id);
+  }
+
+  cancelJob(id: string): void {
+    const control = this.controls.get(id);
+    if (control) {
+      // Interrompt la requête Claude en cours, le worker s'arrête ensuite
+      this.updateJob(id, { currentTask: 'Cancelling...' });
+      control.abort.abort();
+      return;
+    }
+
+    // Job à l'arrêt (pause ou interrompu) : annulation immédiate
+    this.finishCancelled(id);
+  }
+
+  pauseJob(id: string): void {
+    const control = this.controls.get(id);
+    if (!control) return;
+
+    control.pauseRequested = true;
+    this.updateJob(id, { currentTask: 'Pausing after current prompt...' });
+  }
+
+  get webhooksEnabled(): boolean {
+    return this.webhooks.signed;
+  }
+
+  get gitExportEnabled(): boolean {
+    return this.gitExporter.enabled;
+  }
+
+  async exportJob(id: string, options: GitExportOptions = {}): Promise<GitExportResult> {
+    const job = this.store.get(id);
+    if (!job) throw new Error('Job not found');
+
+    try {
+      const result = await this.gitExporter.export(job, getJobOutputDir(id), options);
+      this.store.update(id, { exports: [...(this.store.get(id)?.exports ?? []), result] });
+
+      const changed = result.added.length + result.modified.length;
+      this.broadcast(id, {
+        type: 'log',
+        message: result.commit
+          ? `📦 Exported ${changed} changed files to ${result.path || '/'} on branch ${result.branch} (${result.commit.slice(0, 7)})`
+          : `📦 Export skipped: the ${result.unchanged.length} files are already up to date in the repository`,
+        timestamp: new Date().toISOString(),
+      });
+      return result;
+    } catch (error) {
+      this.broadcast(id, {
+        type: 'log',
+        message: `❌ Git export failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        timestamp: new Date().toISOString(),
+      });
+      throw error;
+    }
+  }
+
+  private finishCancelled(id: string): void {
+    const job = this.store.get(id);
+    if (!job) return;
+
+    const done = job.results.filter(Boolean).length;
+    this.updateJob(id, {
+      status: 'cancelled',
+      currentTask: `Cancelled after ${done}/${job.total} prompts`,
+      completedAt: new Date(),
+    });
+
+    this.broadcast(id, {
+      type: 'log',
+      message: `⏹️ Job cancelled: ${done}/${job.total} prompts kept`,
+      timestamp: new Date().toISOString(),
+    });
+  }
+
+  private scheduleCleanup(id: string, jobOutputDir: string): void {
+    // Auto-cleanup après 1 heure (3600000 ms)
+    setTimeout(async () => {
+      try {
+        await fs.remove(jobOutputDir);
+        console.log(`🧹 Auto-cleaned job ${id} outputs`);
+      } catch (error) {
+        console.error(`Error cleaning job ${id}:`, error);
+      }
+    }, 3600000); // 1 heure
+  }
+
+  addClient(ws: WebSocket, userId: string): void {
+    this.subscriptions.set(ws, { userId, jobIds: new Set(), all: false });
+  }
+
+  removeClient(ws: WebSocket): void {
+    this.subscriptions.delete(ws);
+  }
+
+  subscribe(ws: WebSocket, jobId: string): void {
+    const subscription = this.subscriptions.get(ws);
+    const job = this.store.get(jobId);
+    if (!subscription || !job) return;
+
+    // Seul le propriétaire peut suivre un job
+    if (job.owner !== subscription.userId) {
+      ws.send(JSON.stringify({ type: 'error', jobId, message: 'Access denied' }));
+      return;
+    }
+
+    subscription.jobIds.add(jobId);
+
+    // Envoyer l'état courant pour ne rien manquer de ce qui précède l'abonnement
+    ws.send(JSON.stringify({ type: 'job_update', jobId, job: this.summarize(job) }));
+  }
+
+  unsubscribe(ws: WebSocket, jobId: string): void {
+    this.subscriptions.get(ws)?.jobIds.delete(jobId);
+  }
+
+  subscribeAll(ws: WebSocket, enabled: boolean): void {
+    const subscription = this.subscriptions.get(ws);
+    if (subscription) subscription.all = enabled;
+  }
+
+  private summarize(job: Job) {
+    return {
+      id: job.id,
+      status: job.status,
+      progress: job.progress,
+      total: job.total,
+      currentTask: job.currentTask,
+      completedAt: job.completedAt,
+      error: job.error,
+      generation: job.generation,
+      usage: job.usage,
+    };
+  }
+
+  // Évènement envoyé aux webhooks globaux et à ceux du job, sans attendre la livraison
+  private notify(id: string, event: WebhookEvent, data: Record<string, unknown> = {}): void {
+    const job = this.store.get(id);
+    if (!job) return;
+
+    const results = job.results.filter(Boolean);
+    const payload = {
+      job: {
+        ...this.summarize(job),
+        createdAt: job.createdAt,
+        scheduleId: job.scheduleId,
+        successful: results.filter(result => result.success).length,
+        failed: results.filter(result => !result.success).length,
+      },
+      ...data,
+    };
+
+    this.webhooks.dispatch(event, payload, job.webhooks, delivery => this.recordDelivery(id, delivery));
+  }
+
+  // Met à jour le journal des envois ; chaque tentative remplace l'état précédent
+  private recordDelivery(id: string, delivery: WebhookDelivery): void {
+    const deliveries = [...(this.store.get(id)?.webhookDeliveries ?? [])];
+    const index = deliveries.findIndex(existing => existing.id === delivery.id);
+    if (index === -1) {
+      deliveries.push(delivery);
+    } else {
+      deliveries[index] = delivery;
+    }
+    this.store.update(id, { webhookDeliveries: deliveries });
+
+    if (delivery.status === 'failed') {
+      this.broadcast(id, {
+        type: 'log',
+        message: `❌ Webhook ${delivery.event} to ${delivery.url} failed after ${delivery.attempts} attempts: ${delivery.error}`,
+        timestamp: new Date().toISOString(),
+      });
     }
   }
 
-  private broadcast(data: any): void {
-    const message = JSON.stringify(data);
-    this.wss.clients.forEach(client => {
+  private jobUsage(job: Job, results: JobResult[], initUsage?: TokenUsage): UsageSummary {
+    const init = initUsage ?? job.initUsage;
+    return summarizeUsage([
+      { usage: init, cost: init && estimateCost(job.generation.model, init) },
+      // Les prompts non traités laissent des trous (null une fois persistés)
+      ...results.filter(Boolean),
+    ]);
+  }
+
+  // Envoie un événement aux seuls clients abonnés au job (ou à tous leurs jobs)
+  private broadcast(jobId: string, data: Record<string, unknown>): void {
+    const owner = this.store.get(jobId)?.owner;
+    const message = JSON.stringify({ ...data, jobId });
+    this.subscriptions.forEach((subscription, client) => {
+      const subscribed =
+        subscription.jobIds.has(jobId) ||
+        (subscription.all && subscription.userId === owner);
+      if (!subscribed) return;
       if (client.readyState === client.OPEN) {
         client.send(message);
       }
@@ -194,25 +628,137 @@ class JobManager {
 // Configuration du serveur
 const app: Application = express();
 const server = createServer(app);
-const wss = new WebSocketServer({ server });
-const jobManager = new JobManager(wss);
+const auth = Authenticator.fromEnv();
+const urlSigner = UrlSigner.fromEnv();
+// Durée de validité par défaut des liens signés (secondes)
+const DOWNLOAD_URL_TTL = Number(process.env.DOWNLOAD_URL_TTL) || 3600;
+const MAX_DOWNLOAD_URL_TTL = 7 * 24 * 3600;
+const wss = new WebSocketServer({
+  server,
+  // Refuser l'upgrade WebSocket sans token valide
+  verifyClient: ({ req }, done) => {
+    done(auth.authenticateRequest(req, true) !== undefined, 401, 'Unauthorized');
+  },
+});
+const jobStore = new JobStore(
+  path.resolve(process.env.JOBS_DIR || '../data/jobs')
+);
+const sourceStore = new SourceStore(
+  path.resolve(process.env.SOURCES_DIR || '../data/sources')
+);
+const documentStore = new DocumentStore(
+  path.resolve(process.env.DOCUMENTS_DIR || '../data/documents')
+);
+const jobManager = new JobManager(jobStore, sourceStore, documentStore);
+const scheduleStore = new ScheduleStore(
+  path.resolve(process.env.SCHEDULES_DIR || '../data/schedules')
+);
+// Les planifications passent par le même chemin que POST /api/run
+const scheduler = new Scheduler(
+  scheduleStore,
+  schedule => {
+    const jobId = jobManager.createJob(schedule.owner, schedule.job.generation, {
+      ...schedule.job.batch,
+      scheduleId: schedule.id,
+    });
+    jobManager.runJob(jobId, schedule.job.prompts).catch(error => {
+      console.error('Scheduled job error:', error);
+    });
+    return jobId;
+  },
+  jobId => ['pending', 'running'].includes(jobManager.getJob(jobId)?.status ?? '')
+);
+
+// Taille maximale d'un envoi de code source (archive ou JSON)
+const SOURCE_UPLOAD_LIMIT = process.env.SOURCE_UPLOAD_LIMIT || '50mb';
+
+const SOURCE_ARCHIVE_TYPES: Record<string, SourceArchiveFormat> = {
+  'application/zip': 'zip',
+  'application/x-zip-compressed': 'zip',
+  'application/gzip': 'tar.gz',
+  'application/x-gzip': 'tar.gz',
+  'application/x-tar': 'tar.gz',
+};
 
 // Middleware
 app.use(cors());
-app.use(express.json());
+// Les envois de sources dépassent la limite JSON par défaut : leur corps n'est lu
+// que par la route elle-même, une fois l'utilisateur authentifié
+const jsonBody = express.json();
+app.use((req, res, next) =>
+  req.method === 'POST' && req.path === '/api/sources' ? next() : jsonBody(req, res, next)
+);
+app.use('/api', auth.middleware());
+
+// Récupère le job demandé s'il appartient à l'utilisateur authentifié
+function getOwnedJob(req: Request, res: Response): Job | undefined {
+  const job = jobManager.getJob(req.params.jobId);
+
+  if (!job) {
+    res.status(404).json({ error: 'Job not found' });
+    return undefined;
+  }
+
+  if (job.owner !== res.locals.userId) {
+    res.status(403).json({ error: 'Access denied' });
+    return undefined;
+  }
+
+  return job;
+}
+
+// Accès aux fichiers : lien signé valide, ou token du propriétaire du job
+function authorizeOutputAccess(req: Request, res: Response, signedPath: string): Job | undefined {
+  const { expires, signature } = req.query;
+
+  if (signature !== undefined) {
+    // Lien signé : accessible sans token jusqu'à son expiration
+    if (!urlSigner.verify(signedPath, expires, signature)) {
+      res.status(403).json({ error: 'Invalid or expired link' });
+      return undefined;
+    }
+
+    const job = jobManager.getJob(req.params.jobId);
+    if (!job) {
+      res.status(404).json({ error: 'Job not found' });
+    }
+    return job;
+  }
+
+  const userId = auth.authenticateRequest(req);
+  if (!userId) {
+    res.status(401).json({ error: 'Authentication required' });
+    return undefined;
+  }
+  res.locals.userId = userId;
+
+  return getOwnedJob(req, res);
+}
+
+function archiveUrlPath(jobId: string, format: ArchiveFormat): string {
+  return `/archives/${jobId}/${format}`;
+}
+
+// Un lien signé vers le site donne accès à toutes ses pages
+function siteUrlPath(jobId: string): string {
+  return `/sites/${jobId}/`;
+}
+
+function siteArchiveUrlPath(jobId: string, format: ArchiveFormat): string {
+  return `/site-archives/${jobId}/${format}`;
+}
 
 // Route pour servir les fichiers par job ID (sécurisé)
 app.get('/outputs/:jobId/:filename', async (req, res) => {
   try {
     const { jobId, filename } = req.params;
-    
-    // Vérifier que le job existe et appartient à l'utilisateur
-    const job = jobManager.getJob(jobId);
-    if (!job) {
-      return res.status(404).json({ error: 'Job not found' });
-    }
+    if (!authorizeOutputAccess(req, res, outputUrlPath(jobId, filename))) return;
 
-    const filePath = path.resolve('../outputs', jobId, filename);
+    // Refuser tout chemin qui sort du dossier du job
+    const filePath = resolveOutputPath(jobId, filename);
+    if (!filePath) {
+      return res.status(400).json({ error: 'Invalid filename' });
+    }
     
     // Vérifier que le fichier existe
     if (!(await fs.pathExists(filePath))) {
@@ -220,8 +766,8 @@ app.get('/outputs/:jobId/:filename', async (req, res) => {
     }
 
     // Servir le fichier avec les bons headers
-    res.setHeader('Content-Type', 'text/markdown');
-    res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+    res.attachment(path.basename(filePath));
+    res.setHeader('Content-Type', contentTypeFor(filePath));
     res.sendFile(filePath);
   } catch (error) {
     console.error('Error serving file:', error);
@@ -229,18 +775,313 @@ app.get('/outputs/:jobId/:filename', async (req, res) => {
   }
 });
 
+// Archive de tous les fichiers d'un job (zip ou tar.gz), générée à la volée
+app.get('/archives/:jobId/:format', async (req, res) => {
+  try {
+    const { jobId } = req.params;
+    const format = req.params.format as ArchiveFormat;
+
+    if (!ARCHIVE_FORMATS.includes(format)) {
+      return res.status(400).json({ error: `Unsupported archive format: ${format}` });
+    }
+
+    const job = authorizeOutputAccess(req, res, archiveUrlPath(jobId, format));
+    if (!job) return;
+
+    const jobOutputDir = getJobOutputDir(jobId);
+    if (!(await fs.pathExists(jobOutputDir))) {
+      return res.status(404).json({ error: 'No outputs for this job' });
+    }
+
+    res.attachment(`${jobId}.${format}`);
+    res.setHeader('Content-Type', ARCHIVE_CONTENT_TYPES[format]);
+    await streamArchive(job, jobOutputDir, format, res);
+  } catch (error) {
+    console.error('Error creating archive:', error);
+    if (!res.headersSent) {
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  }
+});
+
+// Site HTML navigable des documents du job, rendu à la volée
+app.get('/sites/:jobId/:page?', async (req, res) => {
+  try {
+    const { jobId } = req.params;
+    const page = req.params.page || SITE_INDEX;
+
+    // Les liens relatifs du site supposent une URL terminée par /
+    if (!req.params.page && !req.path.endsWith('/')) {
+      const query = req.originalUrl.slice(req.path.length);
+      return res.redirect(301, `${req.path}/${query}`);
+    }
+
+    const job = authorizeOutputAccess(req, res, siteUrlPath(jobId));
+    if (!job) return;
+
+    const documents = await loadSiteDocuments(job, getJobOutputDir(jobId));
+
+    // Propager la signature aux liens internes pour naviguer sans token
+    const { expires, signature } = req.query;
+    const linkQuery =
+      typeof signature === 'string'
+        ? `?expires=${encodeURIComponent(String(expires))}&signature=${encodeURIComponent(signature)}`
+        : '';
+
+    const content = renderSitePage(job, documents, page, linkQuery);
+    if (content === undefined) {
+      return res.status(404).json({ error: 'Page not found' });
+    }
+
+    res.setHeader('Content-Type', contentTypeFor(page));
+    res.setHeader('Content-Security-Policy', SITE_CONTENT_SECURITY_POLICY);
+    res.send(content);
+  } catch (error) {
+    console.error('Error rendering site:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Site HTML complet en archive, consultable hors ligne
+app.get('/site-archives/:jobId/:format', async (req, res) => {
+  try {
+    const { jobId } = req.params;
+    const format = req.params.format as ArchiveFormat;
+
+    if (!ARCHIVE_FORMATS.includes(format)) {
+      return res.status(400).json({ error: `Unsupported archive format: ${format}` });
+    }
+
+    const job = authorizeOutputAccess(req, res, siteArchiveUrlPath(jobId, format));
+    if (!job) return;
+
+    const documents = await loadSiteDocuments(job, getJobOutputDir(jobId));
+
+    res.attachment(`${jobId}-site.${format}`);
+    res.setHeader('Content-Type', ARCHIVE_CONTENT_TYPES[format]);
+    await streamFilesArchive(job, renderSite(job, documents), format, res);
+  } catch (error) {
+    console.error('Error creating site archive:', error);
+    if (!res.headersSent) {
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  }
+});
+
 // Routes API
+// Expansion d'un template sur un jeu de données CSV/JSON (une ligne = un prompt)
+function expandTemplateRequest(body: Partial<TemplateSource>): ExpandedPrompt[] {
+  if (body.dataset === undefined) {
+    throw new TemplateError('dataset is required with a template');
+  }
+
+  return expandTemplateSource({
+    template: body.template as string,
+    dataset: body.dataset,
+    datasetFormat: body.datasetFormat,
+  });
+}
+
+// Prompts explicites optionnels (sinon les prompts de démo du dossier ../prompts)
+function parsePrompts(value: unknown): string[] | undefined {
+  if (value === undefined) return undefined;
+  if (
+    !Array.isArray(value) ||
+    value.length === 0 ||
+    !value.every(prompt => typeof prompt === 'string' && prompt.trim().length > 0)
+  ) {
+    throw new TemplateError('prompts must be a non-empty array of non-empty strings');
+  }
+
+  return value;
+}
+
+// Pattern de nom de fichier optionnel, validé contre les variables disponibles
+function parseFilenamePattern(value: unknown, variables?: TemplateRow[]): string | undefined {
+  if (value === undefined || value === '') return undefined;
+  if (typeof value !== 'string') {
+    throw new TemplateError('filenameTemplate must be a string');
+  }
+
+  validateFilenamePattern(value, variables);
+  return value;
+}
+
+// Sources d'un job : bundle envoyé par le même utilisateur, globs optionnels
+async function parseSourceRequest(
+  body: { sourceId?: unknown; sourceInclude?: unknown },
+  owner: string
+): Promise<Job['sources']> {
+  const { sourceId, sourceInclude } = body;
+  if (sourceId === undefined) return undefined;
+
+  const bundle = typeof sourceId === 'string' ? await sourceStore.get(sourceId) : undefined;
+  if (!bundle || bundle.owner !== owner) {
+    throw new SourceError('sourceId does not match any uploaded sources');
+  }
+
+  if (
+    sourceInclude !== undefined &&
+    (!Array.isArray(sourceInclude) || !sourceInclude.every(glob => typeof glob === 'string' && glob.length > 0))
+  ) {
+    throw new SourceError('sourceInclude must be an array of glob patterns');
+  }
+
+  return { id: bundle.id, include: sourceInclude as string[] | undefined };
+}
+
+// Envoi de code source : archive .zip / .tar.gz brute, ou JSON { files: [{ path, content }] }
+app.post(
+  '/api/sources',
+  express.raw({ type: Object.keys(SOURCE_ARCHIVE_TYPES), limit: SOURCE_UPLOAD_LIMIT }),
+  express.json({ limit: SOURCE_UPLOAD_LIMIT }),
+  async (req, res) => {
+    try {
+      const format = SOURCE_ARCHIVE_TYPES[req.headers['content-type']?.split(';')[0].trim() ?? ''];
+      const files = format
+        ? await readSourceArchive(req.body, format)
+        : parseSourceFiles(req.body?.files);
+
+      if (files.length === 0) {
+        throw new SourceError('No text source files found in upload');
+      }
+
+      const name = String(req.query.name ?? req.body?.name ?? 'sources');
+      const bundle = await sourceStore.create(res.locals.userId, name, files);
+      console.log(`📎 Source bundle ${bundle.id} uploaded: ${bundle.fileCount} files`);
+
+      res.json({
+        sourceId: bundle.id,
+        name: bundle.name,
+        fileCount: bundle.fileCount,
+        bytes: bundle.bytes,
+        files: files.map(file => file.path),
+      });
+    } catch (error) {
+      if (error instanceof SourceError) {
+        return res.status(400).json({ error: error.message });
+      }
+
+      console.error('Error uploading sources:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  }
+);
+
+app.get('/api/sources/:sourceId', async (req, res) => {
+  try {
+    const bundle = await sourceStore.get(req.params.sourceId);
+    if (!bundle || bundle.owner !== res.locals.userId) {
+      return res.status(404).json({ error: 'Sources not found' });
+    }
+
+    const { files, ...info } = bundle;
+    res.json({ ...info, files: files.map(file => file.path) });
+  } catch (error) {
+    console.error('Error reading sources:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+app.post('/api/templates/preview', (req, res) => {
+  try {
+    const expanded = expandTemplateRequest(req.body ?? {});
+    const variables = expanded.map(item => item.variables);
+    // Même pattern par défaut que le worker pour le provider du job
+    const { provider } = { ...defaultGenerationSettings(), ...parseGenerationSettings(req.body ?? {}) };
+    const filenames = assignFilenames(
+      expanded.map(item => item.prompt),
+      parseFilenamePattern(req.body.filenameTemplate, variables) ?? filenamePatternFor(provider),
+      variables
+    );
+
+    res.json({
+      count: expanded.length,
+      prompts: expanded.map((item, index) => ({ ...item, filename: filenames[index] })),
+    });
+  } catch (error) {
+    if (error instanceof TemplateError || error instanceof GenerationSettingsError) {
+      return res.status(400).json({ error: error.message });
+    }
+
+    console.error('Error expanding template:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Webhooks du job : refusés tant que leurs signatures ne sont pas vérifiables
+function parseWebhookRequest(value: unknown): WebhookSubscription[] | undefined {
+  const webhooks = parseWebhooks(value);
+  if (webhooks && !jobManager.webhooksEnabled) {
+    throw new WebhookError('Webhooks are not configured (set WEBHOOK_SECRET)');
+  }
+  return webhooks;
+}
+
+// Corps de POST /api/run, repris tel quel par les planifications
+function parseGitExportRequest(value: unknown): GitExportOptions | undefined {
+  const options = parseGitExportOptions(value);
+  if (options && !jobManager.gitExportEnabled) {
+    throw new GitExportError('Git export is not configured (set EXPORT_REPO)');
+  }
+  return options;
+}
+
+async function parseJobRequest(body: Record<string, unknown>, owner: string): Promise<JobRequest> {
+  const generation = parseGenerationSettings(body);
+
+  let prompts: string[] | undefined;
+  let variables: TemplateRow[] | undefined;
+
+  if (body.template !== undefined) {
+    const expanded = expandTemplateRequest(body as Partial<TemplateSource>);
+    prompts = expanded.map(item => item.prompt);
+    variables = expanded.map(item => item.variables);
+  } else {
+    prompts = parsePrompts(body.prompts);
+  }
+
+  return {
+    prompts,
+    generation,
+    batch: {
+      variables,
+      filenameTemplate: parseFilenamePattern(body.filenameTemplate, variables),
+      sources: await parseSourceRequest(body, owner),
+      cache: parseCacheMode(body.cache),
+      webhooks: parseWebhookRequest(body.webhooks),
+      gitExport: parseGitExportRequest(body.gitExport),
+    },
+  };
+}
+
+function isJobRequestError(error: unknown): error is Error {
+  return (
+    error instanceof GenerationSettingsError ||
+    error instanceof TemplateError ||
+    error instanceof SourceError ||
+    error instanceof CacheError ||
+    error instanceof WebhookError ||
+    error instanceof GitExportError
+  );
+}
+
 app.post('/api/run', async (req, res) => {
   try {
-    const jobId = jobManager.createJob();
+    const request = await parseJobRequest(req.body ?? {}, res.locals.userId);
+    const jobId = jobManager.createJob(res.locals.userId, request.generation, request.batch);
     
     // Lancer le job de manière asynchrone
-    jobManager.runJob(jobId, req.body.prompts).catch(error => {
+    jobManager.runJob(jobId, request.prompts).catch(error => {
       console.error('Job error:', error);
     });
 
     res.json({ jobId, status: 'started' });
   } catch (error) {
+    if (isJobRequestError(error)) {
+      return res.status(400).json({ error: error.message });
+    }
+
     console.error('Error starting job:', error);
     res.status(500).json({ 
       error: error instanceof Error ? error.message : 'Unknown error' 
@@ -248,14 +1089,245 @@ app.post('/api/run', async (req, res) => {
   }
 });
 
-app.get('/api/status/:jobId', (req, res) => {
+// Planification avec l'état de son dernier job
+function describeSchedule(schedule: Schedule) {
+  const lastJob = schedule.lastJobId ? jobManager.getJob(schedule.lastJobId) : undefined;
+  return {
+    id: schedule.id,
+    name: schedule.name,
+    cron: schedule.cron,
+    timezone: schedule.timezone,
+    promptCount: schedule.job.prompts?.length,
+    generation: schedule.job.generation,
+    createdAt: schedule.createdAt,
+    nextRunAt: schedule.nextRunAt,
+    lastRunAt: schedule.lastRunAt,
+    lastSkippedAt: schedule.lastSkippedAt,
+    lastJob: lastJob && {
+      id: lastJob.id,
+      status: lastJob.status,
+      progress: lastJob.progress,
+      total: lastJob.total,
+      completedAt: lastJob.completedAt,
+      error: lastJob.error,
+    },
+  };
+}
+
+// Planification cron d'un job : mêmes champs que POST /api/run, plus name, cron et timezone
+app.post('/api/schedules', async (req, res) => {
+  try {
+    const body = req.body ?? {};
+    const { name, cron, timezone } = body;
+
+    if (typeof name !== 'string' || !name.trim()) {
+      throw new ScheduleError('name is required');
+    }
+    if (typeof cron !== 'string') {
+      throw new ScheduleError('cron is required, e.g. "0 2 * * *"');
+    }
+    if (timezone !== undefined && typeof timezone !== 'string') {
+      throw new ScheduleError('timezone must be an IANA timezone name');
+    }
+
+    const schedule: Schedule = {
+      id: uuidv4(),
+      owner: res.locals.userId,
+      name: name.trim(),
+      cron: cron.trim(),
+      timezone,
+      job: await parseJobRequest(body, res.locals.userId),
+      createdAt: new Date(),
+      nextRunAt: nextRun(cron, timezone),
+    };
+
+    scheduleStore.create(schedule);
+    res.status(201).json(describeSchedule(schedule));
+  } catch (error) {
+    if (error instanceof ScheduleError || isJobRequestError(error)) {
+      return res.status(400).json({ error: error.message });
+    }
+
+    console.error('Error creating schedule:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+app.get('/api/schedules', (req, res) => {
+  const schedules = scheduleStore
+    .list()
+    .filter(schedule => schedule.owner === res.locals.userId)
+    .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+
+  res.json({ schedules: schedules.map(describeSchedule) });
+});
+
+app.delete('/api/schedules/:scheduleId', (req, res) => {
+  const { scheduleId } = req.params;
+  const schedule = scheduleStore.get(scheduleId);
+
+  // Même réponse qu'un identifiant inconnu pour ne rien révéler
+  if (!schedule || schedule.owner !== res.locals.userId) {
+    return res.status(404).json({ error: 'Schedule not found' });
+  }
+
+  scheduleStore.delete(scheduleId);
+  res.json({ scheduleId, status: 'deleted' });
+});
+
+app.post('/api/cancel/:jobId', (req, res) => {
   const { jobId } = req.params;
-  const job = jobManager.getJob(jobId);
-  
-  if (!job) {
-    return res.status(404).json({ error: 'Job not found' });
+  const job = getOwnedJob(req, res);
+  if (!job) return;
+
+  if (['completed', 'failed', 'cancelled'].includes(job.status)) {
+    return res.status(409).json({
+      error: `Job is already finished (status: ${job.status})`,
+    });
+  }
+
+  jobManager.cancelJob(jobId);
+  res.json({ jobId, status: 'cancelling' });
+});
+
+app.post('/api/pause/:jobId', (req, res) => {
+  const { jobId } = req.params;
+  const job = getOwnedJob(req, res);
+  if (!job) return;
+
+  if (!jobManager.isActive(jobId)) {
+    return res.status(409).json({
+      error: `Only running jobs can be paused (status: ${job.status})`,
+    });
+  }
+
+  jobManager.pauseJob(jobId);
+  res.json({ jobId, status: 'pausing' });
+});
+
+app.post('/api/resume/:jobId', (req, res) => {
+  const { jobId } = req.params;
+  const job = getOwnedJob(req, res);
+  if (!job) return;
+
+  if (
+    !['interrupted', 'paused'].includes(job.status) ||
+    jobManager.isActive(jobId)
+  ) {
+    return res.status(409).json({
+      error: `Only paused or interrupted jobs can be resumed (status: ${job.status})`,
+    });
+  }
+
+  jobManager.runJob(jobId).catch(error => {
+    console.error('Job error:', error);
+  });
+
+  res.json({ jobId, status: 'resumed' });
+});
+
+// Copie les fichiers du job dans le dépôt git configuré, sur une nouvelle branche : { path?, branch? }
+app.post('/api/export/:jobId', async (req, res) => {
+  const { jobId } = req.params;
+  const job = getOwnedJob(req, res);
+  if (!job) return;
+
+  if (job.status !== 'completed') {
+    return res.status(409).json({
+      error: `Only completed jobs can be exported (status: ${job.status})`,
+    });
+  }
+
+  try {
+    const result = await jobManager.exportJob(jobId, parseGitExportOptions(req.body ?? {}));
+    res.json(result);
+  } catch (error) {
+    if (error instanceof GitExportError) {
+      return res.status(400).json({ error: error.message });
+    }
+
+    console.error('Error exporting job:', error);
+    res.status(500).json({
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+const DEFAULT_HISTORY_PAGE_SIZE = 20;
+const MAX_HISTORY_PAGE_SIZE = 100;
+
+// Historique des jobs de l'utilisateur : ?status=completed,failed&from=2024-06-01&to=2024-06-30&q=billing&page=2
+app.get('/api/jobs', (req, res) => {
+  const { status, from, to, q } = req.query;
+
+  const statuses = typeof status === 'string' && status ? (status.split(',') as JobStatus[]) : undefined;
+  const unknown = statuses?.find(s => !JOB_STATUSES.includes(s));
+  if (unknown) {
+    return res.status(400).json({ error: `Unknown status: ${unknown}` });
+  }
+
+  const parseDate = (value: unknown, endOfDay: boolean): Date | null | undefined => {
+    if (typeof value !== 'string' || !value) return undefined;
+    const date = new Date(value);
+    if (Number.isNaN(date.getTime())) return null;
+    // Une date seule (2024-06-30) couvre toute la journée
+    if (endOfDay && /^\d{4}-\d{2}-\d{2}$/.test(value)) {
+      date.setUTCDate(date.getUTCDate() + 1);
+    }
+    return date;
+  };
+  const fromDate = parseDate(from, false);
+  const toDate = parseDate(to, true);
+  if (fromDate === null || toDate === null) {
+    return res.status(400).json({ error: 'from and to must be ISO 8601 dates' });
+  }
+
+  const page = Number(req.query.page ?? 1);
+  const pageSize = Number(req.query.pageSize ?? DEFAULT_HISTORY_PAGE_SIZE);
+  if (!Number.isInteger(page) || page < 1) {
+    return res.status(400).json({ error: 'page must be a positive integer' });
+  }
+  if (!Number.isInteger(pageSize) || pageSize < 1 || pageSize > MAX_HISTORY_PAGE_SIZE) {
+    return res.status(400).json({ error: `pageSize must be an integer between 1 and ${MAX_HISTORY_PAGE_SIZE}` });
   }
 
+  const { jobs, total } = jobStore.query({
+    owner: res.locals.userId,
+    statuses,
+    from: fromDate,
+    to: toDate,
+    text: typeof q === 'string' && q.trim() ? q.trim() : undefined,
+    offset: (page - 1) * pageSize,
+    limit: pageSize,
+  });
+
+  res.json({
+    jobs: jobs.map(job => ({
+      id: job.id,
+      status: job.status,
+      progress: job.progress,
+      total: job.total,
+      createdAt: job.createdAt,
+      completedAt: job.completedAt,
+      error: job.error,
+      provider: job.generation.provider,
+      model: job.generation.model,
+      promptCount: job.prompts.length,
+      // Aperçu du premier prompt pour reconnaître le job
+      firstPrompt: job.prompts[0]?.slice(0, 120),
+      usage: job.usage,
+      scheduleId: job.scheduleId,
+    })),
+    total,
+    page,
+    pageSize,
+  });
+});
+
+app.get('/api/status/:jobId', (req, res) => {
+  const job = getOwnedJob(req, res);
+  if (!job) return;
+
   res.json({
     id: job.id,
     status: job.status,
@@ -265,36 +1337,90 @@ app.get('/api/status/:jobId', (req, res) => {
     createdAt: job.createdAt,
     completedAt: job.completedAt,
     error: job.error,
+    generation: job.generation,
+    scheduleId: job.scheduleId,
+    usage: job.usage,
+    exports: job.exports,
     results: job.results,
   });
 });
 
+// Journal des envois de webhooks du job
+app.get('/api/webhooks/:jobId', (req, res) => {
+  const job = getOwnedJob(req, res);
+  if (!job) return;
+
+  res.json({
+    webhooks: job.webhooks ?? [],
+    deliveries: job.webhookDeliveries ?? [],
+  });
+});
+
 app.get('/api/outputs/:jobId', async (req, res) => {
   try {
     const { jobId } = req.params;
     
-    // Vérifier que le job existe
-    const job = jobManager.getJob(jobId);
-    if (!job) {
-      return res.status(404).json({ error: 'Job not found' });
-    }
+    // Vérifier que le job existe et appartient à l'utilisateur
+    const job = getOwnedJob(req, res);
+    if (!job) return;
 
-    const jobOutputDir = path.resolve('../outputs', jobId);
+    const jobOutputDir = getJobOutputDir(jobId);
+    const ttl = Math.min(
+      Number(req.query.expiresIn) || DOWNLOAD_URL_TTL,
+      MAX_DOWNLOAD_URL_TTL
+    );
     
     // Vérifier que le dossier existe
     if (!(await fs.pathExists(jobOutputDir))) {
-      return res.json({ outputs: [] });
+      return res.json({ manifest: null, outputs: [], archives: {} });
     }
-    
-    const files = await fs.readdir(jobOutputDir);
-    const outputs = files
-      .filter((f: string) => f.endsWith('.md'))
-      .map((f: string) => ({
-        filename: f,
-        downloadUrl: `/outputs/${jobId}/${f}`,
-      }));
-
-    res.json({ outputs });
+
+    // Jobs antérieurs au manifeste : le reconstruire depuis les résultats
+    const manifest =
+      (await readManifest(jobOutputDir)) ?? buildManifest(job.prompts, job.results);
+
+    const outputs = manifest.files
+      .filter(entry => entry.status === 'success' && entry.filename)
+      .map(entry => {
+        const f = entry.filename as string;
+        const signed = urlSigner.sign(outputUrlPath(jobId, f), ttl);
+        return {
+          index: entry.index,
+          prompt: entry.prompt,
+          filename: f,
+          truncated: entry.truncated ?? false,
+          sources: entry.sources ?? [],
+          findings: entry.findings ?? [],
+          // Historique des versions : GET /api/documents/:documentId
+          documentId: documentId(job.owner, entry.prompt),
+          repaired: entry.repaired ?? false,
+          downloadUrl: outputUrlPath(jobId, f),
+          // Lien partageable sans identifiants, valable jusqu'à expiresAt
+          signedUrl: signed.url,
+          expiresAt: signed.expiresAt,
+        };
+      });
+
+    // Liens signés vers l'archive complète, dans chaque format
+    const archives = Object.fromEntries(
+      ARCHIVE_FORMATS.map(format => [
+        format,
+        urlSigner.sign(archiveUrlPath(jobId, format), ttl).url,
+      ])
+    );
+
+    // Site HTML : lien signé vers l'index et archives téléchargeables
+    const site = {
+      url: urlSigner.sign(siteUrlPath(jobId), ttl).url,
+      archives: Object.fromEntries(
+        ARCHIVE_FORMATS.map(format => [
+          format,
+          urlSigner.sign(siteArchiveUrlPath(jobId, format), ttl).url,
+        ])
+      ),
+    };
+
+    res.json({ manifest, outputs, archives, site });
   } catch (error) {
     console.error('Error reading outputs:', error);
     res.status(500).json({ 
@@ -303,20 +1429,140 @@ app.get('/api/outputs/:jobId', async (req, res) => {
   }
 });
 
+// Documents suivis d'un job à l'autre (un par prompt), du plus récemment régénéré au plus ancien
+app.get('/api/documents', (req, res) => {
+  res.json({
+    documents: documentStore.list(res.locals.userId).map(document => {
+      const latest = document.versions[document.versions.length - 1];
+      return {
+        id: document.id,
+        prompt: document.prompt,
+        filename: latest.filename,
+        versions: document.versions.length,
+        updatedAt: document.updatedAt,
+      };
+    }),
+  });
+});
+
+// Récupère le document demandé s'il appartient à l'utilisateur authentifié
+function getOwnedDocument(req: Request, res: Response): TrackedDocument | undefined {
+  const document = documentStore.get(req.params.documentId);
+
+  if (!document) {
+    res.status(404).json({ error: 'Document not found' });
+    return undefined;
+  }
+
+  if (document.owner !== res.locals.userId) {
+    res.status(403).json({ error: 'Access denied' });
+    return undefined;
+  }
+
+  return document;
+}
+
+// Versions du document, sans leur contenu
+app.get('/api/documents/:documentId', (req, res) => {
+  const document = getOwnedDocument(req, res);
+  if (!document) return;
+
+  res.json({
+    id: document.id,
+    prompt: document.prompt,
+    updatedAt: document.updatedAt,
+    versions: document.versions.map(({ content, ...version }) => ({ ...version, size: content.length })),
+  });
+});
+
+app.get('/api/documents/:documentId/versions/:version', (req, res) => {
+  const document = getOwnedDocument(req, res);
+  if (!document) return;
+
+  const version = document.versions[Number(req.params.version) - 1];
+  if (!version) {
+    return res.status(404).json({ error: 'Version not found' });
+  }
+
+  res.json(version);
+});
+
+// Diff entre deux versions : ?from=1&to=3&format=unified|words&context=3 (défaut : dernière version contre la précédente)
+app.get('/api/documents/:documentId/diff', (req, res) => {
+  const document = getOwnedDocument(req, res);
+  if (!document) return;
+
+  const { from, to, format = 'unified', context } = req.query;
+  const latest = document.versions.length;
+
+  const toVersion = to === undefined ? latest : Number(to);
+  const fromVersion = from === undefined ? Math.max(1, toVersion - 1) : Number(from);
+  for (const version of [fromVersion, toVersion]) {
+    if (!Number.isInteger(version) || version < 1 || version > latest) {
+      return res.status(400).json({ error: `Versions must be integers between 1 and ${latest}` });
+    }
+  }
+
+  if (!DIFF_FORMATS.includes(format as DiffFormat)) {
+    return res.status(400).json({ error: `format must be one of: ${DIFF_FORMATS.join(', ')}` });
+  }
+
+  const contextLines = context === undefined ? 3 : Number(context);
+  if (!Number.isInteger(contextLines) || contextLines < 0 || contextLines > 1000) {
+    return res.status(400).json({ error: 'context must be an integer between 0 and 1000' });
+  }
+
+  res.json({
+    documentId: document.id,
+    from: fromVersion,
+    to: toVersion,
+    ...diffVersions(
+      document.versions[fromVersion - 1],
+      document.versions[toVersion - 1],
+      format as DiffFormat,
+      contextLines
+    ),
+  });
+});
+
 app.get('/health', (req, res) => {
   res.json({ status: 'ok', timestamp: new Date().toISOString() });
 });
 
 // Gestion WebSocket
-wss.on('connection', (ws) => {
+wss.on('connection', (ws, req) => {
   console.log('🔌 New WebSocket connection');
   
+  jobManager.addClient(ws, auth.authenticateRequest(req, true) ?? '');
+  
   ws.send(JSON.stringify({
     type: 'connected',
     message: 'WebSocket connection established',
   }));
 
+  // Protocole d'abonnement : { type: 'subscribe' | 'unsubscribe', jobId } ou { type: 'subscribe', all: true }
+  ws.on('message', (raw) => {
+    try {
+      const data = JSON.parse(raw.toString());
+
+      if (data.type === 'subscribe' && data.all === true) {
+        jobManager.subscribeAll(ws, true);
+      } else if (data.type === 'unsubscribe' && data.all === true) {
+        jobManager.subscribeAll(ws, false);
+      } else if (data.type === 'subscribe' && typeof data.jobId === 'string') {
+        jobManager.subscribe(ws, data.jobId);
+      } else if (data.type === 'unsubscribe' && typeof data.jobId === 'string') {
+        jobManager.unsubscribe(ws, data.jobId);
+      } else {
+        ws.send(JSON.stringify({ type: 'error', message: 'Unknown WebSocket message' }));
+      }
+    } catch (error) {
+      ws.send(JSON.stringify({ type: 'error', message: 'Invalid WebSocket message' }));
+    }
+  });
+
   ws.on('close', () => {
+    jobManager.removeClient(ws);
     console.log('🔌 WebSocket connection closed');
   });
 });
@@ -324,10 +1570,28 @@ wss.on('connection', (ws) => {
 // Démarrage du serveur
 const PORT = process.env.PORT || 3001;
 
-server.listen(PORT, () => {
-  console.log(`🚀 API Server started on port ${PORT}`);
-  console.log(`📡 WebSocket Server enabled`);
-  console.log(`🏥 Health check: http://localhost:${PORT}/health`);
-});
+if (!auth.enabled) {
+  if (process.env.NODE_ENV === 'production') {
+    console.error('💥 API_TOKENS must be set in production');
+    process.exit(1);
+  }
+  console.warn('⚠️ API_TOKENS not set: authentication disabled');
+}
+
+jobManager
+  .init()
+  .then(() => scheduleStore.load())
+  .then(() => {
+    scheduler.start();
+    server.listen(PORT, () => {
+      console.log(`🚀 API Server started on port ${PORT}`);
+      console.log(`📡 WebSocket Server enabled`);
+      console.log(`🏥 Health check: http://localhost:${PORT}/health`);
+    });
+  })
+  .catch(error => {
+    console.error('💥 Unable to load job, document and schedule stores:', error);
+    process.exit(1);
+  });
 
 export default app; 
\ No newline at end of file
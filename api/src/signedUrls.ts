@@ -0,0 +1,46 @@
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+
+// Liens de téléchargement signés (HMAC-SHA256) avec date d'expiration
+export class UrlSigner {
+  private secret: string;
+
+  constructor(secret: string) {
+    this.secret = secret;
+  }
+
+  static fromEnv(): UrlSigner {
+    const secret = process.env.DOWNLOAD_SIGNING_SECRET;
+    if (!secret) {
+      console.warn('⚠️ DOWNLOAD_SIGNING_SECRET not set: signed links will not survive a restart');
+    }
+    return new UrlSigner(secret || randomBytes(32).toString('hex'));
+  }
+
+  sign(pathname: string, ttlSeconds: number): { url: string; expiresAt: Date } {
+    const expires = Math.floor(Date.now() / 1000) + ttlSeconds;
+    const signature = this.signature(pathname, expires);
+    return {
+      url: `${pathname}?expires=${expires}&signature=${signature}`,
+      expiresAt: new Date(expires * 1000),
+    };
+  }
+
+  verify(pathname: string, expires: unknown, signature: unknown): boolean {
+    if (typeof expires !== 'string' || typeof signature !== 'string') return false;
+    // Buffer.from(…, 'hex') ignore silencieusement les caractères invalides
+    if (!/^[0-9a-f]{64}$/.test(signature)) return false;
+
+    const expiresAt = Number(expires);
+    if (!Number.isInteger(expiresAt) || expiresAt < Date.now() / 1000) return false;
+
+    const expected = Buffer.from(this.signature(pathname, expiresAt), 'hex');
+    const actual = Buffer.from(signature, 'hex');
+    return actual.length === expected.length && timingSafeEqual(actual, expected);
+  }
+
+  private signature(pathname: string, expires: number): string {
+    return createHmac('sha256', this.secret)
+      .update(`${pathname}:${expires}`)
+      .digest('hex');
+  }
+}
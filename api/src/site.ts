@@ -0,0 +1,260 @@
+import { createRequire } from 'module';
+import path from 'path';
+import fs from 'fs-extra';
+import { Marked } from 'marked';
+import { markedHighlight } from 'marked-highlight';
+import hljs from 'highlight.js';
+import { buildManifest, readManifest } from '@claude-doc-bot/worker';
+import type { Job } from './jobStore.js';
+
+export const SITE_INDEX = 'index.html';
+export const SITE_STYLESHEET = 'site.css';
+
+// Le HTML des documents vient du modèle : aucun script, styles et images seulement
+export const SITE_CONTENT_SECURITY_POLICY =
+  "default-src 'none'; style-src 'self'; img-src * data:; base-uri 'none'; form-action 'none'";
+
+const SAFE_URL_SCHEMES = ['http', 'https', 'mailto'];
+
+export interface SiteDocument {
+  // Fichier Markdown source et page HTML générée
+  filename: string;
+  page: string;
+  title: string;
+  markdown: string;
+}
+
+interface TocEntry {
+  level: number;
+  id: string;
+  text: string;
+}
+
+const require = createRequire(import.meta.url);
+const HIGHLIGHT_THEME = fs.readFileSync(require.resolve('highlight.js/styles/github.css'), 'utf-8');
+
+const LAYOUT_CSS = `
+* { box-sizing: border-box; }
+body { margin: 0; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Helvetica, Arial, sans-serif; color: #1f2937; line-height: 1.6; }
+a { color: #2563eb; text-decoration: none; }
+a:hover { text-decoration: underline; }
+.layout { display: flex; min-height: 100vh; }
+.sidebar { width: 280px; flex-shrink: 0; padding: 1.5rem 1rem; background: #f9fafb; border-right: 1px solid #e5e7eb; }
+.sidebar h2 { font-size: 0.875rem; text-transform: uppercase; color: #6b7280; margin: 0 0 0.75rem; }
+.sidebar ul { list-style: none; margin: 0; padding: 0; }
+.sidebar li a { display: block; padding: 0.375rem 0.5rem; border-radius: 0.375rem; font-size: 0.875rem; color: #374151; }
+.sidebar li a.active { background: #dbeafe; color: #1d4ed8; font-weight: 600; }
+main { flex: 1; min-width: 0; max-width: 860px; padding: 2rem 3rem; }
+.toc { width: 240px; flex-shrink: 0; padding: 2rem 1rem; font-size: 0.8125rem; }
+.toc ul { list-style: none; margin: 0; padding: 0; position: sticky; top: 1rem; }
+.toc .level-2 { padding-left: 0.75rem; }
+.toc .level-3 { padding-left: 1.5rem; }
+pre { background: #f6f8fa; padding: 1rem; border-radius: 0.5rem; overflow-x: auto; }
+code { font-family: ui-monospace, SFMono-Regular, Menlo, monospace; font-size: 0.875em; }
+:not(pre) > code { background: #f3f4f6; padding: 0.125rem 0.375rem; border-radius: 0.25rem; }
+table { border-collapse: collapse; }
+th, td { border: 1px solid #e5e7eb; padding: 0.375rem 0.75rem; }
+blockquote { margin: 0; padding-left: 1rem; border-left: 4px solid #e5e7eb; color: #4b5563; }
+.documents li { margin-bottom: 0.75rem; }
+.documents .filename { display: block; font-size: 0.8125rem; color: #6b7280; }
+@media (max-width: 1100px) { .toc { display: none; } }
+@media (max-width: 720px) { .layout { display: block; } .sidebar { width: auto; } main { padding: 1.5rem; } }
+`;
+
+// Documents réussis du job, dans l'ordre des prompts
+export async function loadSiteDocuments(job: Job, outputDir: string): Promise<SiteDocument[]> {
+  const manifest = (await readManifest(outputDir)) ?? buildManifest(job.prompts, job.results);
+  const documents: SiteDocument[] = [];
+
+  for (const entry of manifest.files) {
+    if (entry.status !== 'success' || !entry.filename?.endsWith('.md')) continue;
+
+    const filename = path.basename(entry.filename);
+    const file = path.join(outputDir, filename);
+    if (!(await fs.pathExists(file))) continue;
+
+    const page = filename.replace(/\.md$/, '.html');
+    documents.push({
+      filename,
+      // La page d'accueil garde son nom
+      page: page === SITE_INDEX ? `doc-${page}` : page,
+      title: documentTitle(entry.prompt, filename),
+      markdown: await fs.readFile(file, 'utf-8'),
+    });
+  }
+
+  return documents;
+}
+
+// Rend une page du site, ou undefined si elle n'existe pas.
+// `linkQuery` est ajouté aux liens internes (signature d'un lien partagé)
+export function renderSitePage(
+  job: Job,
+  documents: SiteDocument[],
+  page: string,
+  linkQuery = ''
+): string | undefined {
+  if (page === SITE_STYLESHEET) {
+    return `${LAYOUT_CSS}\n${HIGHLIGHT_THEME}`;
+  }
+
+  if (page === SITE_INDEX) {
+    const items = documents
+      .map(
+        doc =>
+          `<li><a href="${escapeHtml(doc.page + linkQuery)}">${escapeHtml(doc.title)}</a>` +
+          `<span class="filename">${escapeHtml(doc.filename)}</span></li>`
+      )
+      .join('\n');
+
+    return layout(job, documents, {
+      title: 'Index',
+      content: `<h1>${escapeHtml(siteTitle(job))}</h1>
+<p>${documents.length} document(s) generated on ${escapeHtml(job.createdAt.toLocaleString('en-US'))}.</p>
+<ul class="documents">
+${items}
+</ul>`,
+      linkQuery,
+    });
+  }
+
+  const doc = documents.find(d => d.page === page);
+  if (!doc) return undefined;
+
+  const { html, toc } = renderMarkdown(doc.markdown, documents, linkQuery);
+  return layout(job, documents, { title: doc.title, current: doc, content: html, toc, linkQuery });
+}
+
+// Toutes les pages du site, pour le bundle téléchargeable
+export function renderSite(job: Job, documents: SiteDocument[]): Record<string, string> {
+  const pages = [SITE_INDEX, SITE_STYLESHEET, ...documents.map(doc => doc.page)];
+  return Object.fromEntries(pages.map(page => [page, renderSitePage(job, documents, page) as string]));
+}
+
+function renderMarkdown(markdown: string, documents: SiteDocument[], linkQuery: string) {
+  const toc: TocEntry[] = [];
+  const ids = new Set<string>();
+  const pages = new Map(documents.map(doc => [doc.filename, doc.page]));
+
+  const marked = new Marked(
+    markedHighlight({
+      langPrefix: 'hljs language-',
+      highlight(code, lang) {
+        const language = hljs.getLanguage(lang) ? lang : 'plaintext';
+        return hljs.highlight(code, { language }).value;
+      },
+    }),
+    {
+      // Liens entre documents du job : .md → page HTML ; javascript:, data:… neutralisés
+      walkTokens(token) {
+        if ((token.type === 'link' || token.type === 'image') && !isSafeUrl(token.href)) {
+          token.href = '#';
+        }
+        if (token.type === 'link' && pages.has(token.href)) {
+          token.href = pages.get(token.href) + linkQuery;
+        }
+      },
+      renderer: {
+        heading(text, level, raw) {
+          const id = headingId(raw, ids);
+          if (level <= 3) {
+            toc.push({ level, id, text: raw });
+          }
+          return `<h${level} id="${id}">${text}</h${level}>\n`;
+        },
+        // Le HTML brut du modèle est affiché tel quel, jamais interprété
+        html(html) {
+          return escapeHtml(html);
+        },
+      },
+    }
+  );
+
+  return { html: marked.parse(markdown, { async: false }) as string, toc };
+}
+
+// URL relative ou de schéma http, https ou mailto (les navigateurs ignorent blancs et caractères de contrôle)
+function isSafeUrl(url: string): boolean {
+  const scheme = /^([a-z][a-z\d+.-]*):/i.exec(url.replace(/[\s\p{Cc}]/gu, ''));
+  return !scheme || SAFE_URL_SCHEMES.includes(scheme[1].toLowerCase());
+}
+
+function layout(
+  job: Job,
+  documents: SiteDocument[],
+  options: { title: string; content: string; current?: SiteDocument; toc?: TocEntry[]; linkQuery: string }
+): string {
+  const { title, content, current, toc = [], linkQuery } = options;
+
+  const sidebar = documents
+    .map(doc => {
+      const active = doc === current ? ' class="active"' : '';
+      return `<li><a href="${escapeHtml(doc.page + linkQuery)}"${active}>${escapeHtml(doc.title)}</a></li>`;
+    })
+    .join('\n');
+
+  const tocItems = toc
+    .map(entry => `<li class="level-${entry.level}"><a href="#${entry.id}">${escapeHtml(entry.text)}</a></li>`)
+    .join('\n');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<meta http-equiv="Content-Security-Policy" content="${escapeHtml(SITE_CONTENT_SECURITY_POLICY)}">
+<title>${escapeHtml(title)} · ${escapeHtml(siteTitle(job))}</title>
+<link rel="stylesheet" href="${escapeHtml(SITE_STYLESHEET + linkQuery)}">
+</head>
+<body>
+<div class="layout">
+<nav class="sidebar">
+<h2><a href="${escapeHtml(SITE_INDEX + linkQuery)}">Documents</a></h2>
+<ul>
+${sidebar}
+</ul>
+</nav>
+<main>
+${content}
+</main>
+${tocItems ? `<aside class="toc"><ul>\n${tocItems}\n</ul></aside>` : ''}
+</div>
+</body>
+</html>
+`;
+}
+
+function siteTitle(job: Job): string {
+  return `Documentation · job ${job.id.slice(0, 8)}`;
+}
+
+// Première ligne du prompt, à défaut le nom du fichier
+function documentTitle(prompt: string, filename: string): string {
+  const line = prompt.split('\n').find(l => l.trim())?.trim();
+  if (!line) return filename.replace(/\.md$/, '');
+  return line.length > 80 ? `${line.slice(0, 77)}...` : line;
+}
+
+function headingId(text: string, used: Set<string>): string {
+  const base =
+    text
+      .toLowerCase()
+      .replace(/[^\p{L}\p{N}]+/gu, '-')
+      .replace(/^-+|-+$/g, '') || 'section';
+
+  let id = base;
+  for (let n = 2; used.has(id); n++) {
+    id = `${base}-${n}`;
+  }
+  used.add(id);
+  return id;
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
@@ -0,0 +1,52 @@
+import path from 'path';
+import fs from 'fs-extra';
+import { v4 as uuidv4 } from 'uuid';
+import { SourceFile } from '@claude-doc-bot/worker';
+
+export interface SourceBundle {
+  id: string;
+  // Utilisateur qui a envoyé les sources
+  owner: string;
+  name: string;
+  fileCount: number;
+  bytes: number;
+  createdAt: Date;
+}
+
+// Code source envoyé pour ancrer les jobs : un fichier JSON par envoi
+export class SourceStore {
+  private dir: string;
+
+  constructor(dir: string) {
+    this.dir = dir;
+  }
+
+  async create(owner: string, name: string, files: SourceFile[]): Promise<SourceBundle> {
+    const bundle: SourceBundle = {
+      id: uuidv4(),
+      owner,
+      name,
+      fileCount: files.length,
+      bytes: files.reduce((sum, file) => sum + Buffer.byteLength(file.content), 0),
+      createdAt: new Date(),
+    };
+
+    await fs.outputJson(this.file(bundle.id), { ...bundle, files });
+    return bundle;
+  }
+
+  async get(id: string): Promise<(SourceBundle & { files: SourceFile[] }) | undefined> {
+    // L'identifiant vient de la requête : refuser tout ce qui n'est pas un uuid
+    if (!/^[0-9a-f-]{36}$/.test(id)) return undefined;
+
+    const file = this.file(id);
+    if (!(await fs.pathExists(file))) return undefined;
+
+    const data = await fs.readJson(file);
+    return { ...data, createdAt: new Date(data.createdAt) };
+  }
+
+  private file(id: string): string {
+    return path.join(this.dir, `${id}.json`);
+  }
+}
@@ -0,0 +1,194 @@
+import { createHmac, randomBytes, randomUUID } from 'crypto';
+
+export const WEBHOOK_EVENTS = ['job.started', 'job.completed', 'job.failed', 'prompt.failed'] as const;
+export type WebhookEvent = (typeof WEBHOOK_EVENTS)[number];
+
+export interface WebhookSubscription {
+  url: string;
+  // Évènements envoyés (défaut : tous)
+  events?: WebhookEvent[];
+}
+
+export interface WebhookDelivery {
+  // Identique pour toutes les tentatives : permet au destinataire de dédoublonner
+  id: string;
+  event: WebhookEvent;
+  url: string;
+  status: 'pending' | 'delivered' | 'failed';
+  attempts: number;
+  // Code HTTP de la dernière tentative
+  responseStatus?: number;
+  error?: string;
+  createdAt: string;
+  finishedAt?: string;
+}
+
+// Webhooks invalides fournis par l'utilisateur
+export class WebhookError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'WebhookError';
+  }
+}
+
+const MAX_WEBHOOKS_PER_JOB = 10;
+const MAX_RETRY_DELAY_MS = 5 * 60000;
+const REQUEST_TIMEOUT_MS = 10000;
+
+// Liste d'URL ou d'objets { url, events } fournie à la création d'un job
+export function parseWebhooks(value: unknown): WebhookSubscription[] | undefined {
+  if (value === undefined) return undefined;
+  if (!Array.isArray(value) || value.length > MAX_WEBHOOKS_PER_JOB) {
+    throw new WebhookError(`webhooks must be an array of at most ${MAX_WEBHOOKS_PER_JOB} URLs or { url, events } objects`);
+  }
+
+  return value.map(item => {
+    const { url, events } = typeof item === 'string' ? { url: item, events: undefined } : item ?? {};
+
+    let parsed: URL | undefined;
+    try {
+      parsed = new URL(url);
+    } catch {
+      parsed = undefined;
+    }
+    if (!parsed || !['http:', 'https:'].includes(parsed.protocol)) {
+      throw new WebhookError(`Invalid webhook URL: ${url}`);
+    }
+
+    if (
+      events !== undefined &&
+      (!Array.isArray(events) || !events.every(event => WEBHOOK_EVENTS.includes(event)))
+    ) {
+      throw new WebhookError(`webhook events must be a list of: ${WEBHOOK_EVENTS.join(', ')}`);
+    }
+
+    return { url: parsed.toString(), events };
+  });
+}
+
+// Envoi des évènements signés (HMAC-SHA256), avec retries et backoff exponentiel
+export class WebhookDispatcher {
+  private secret: string;
+  // Sans secret configuré, les signatures ne sont vérifiables par aucun destinataire
+  private secretConfigured: boolean;
+  private subscriptions: WebhookSubscription[];
+  private maxAttempts: number;
+  private baseDelayMs: number;
+
+  constructor(secret?: string, subscriptions: WebhookSubscription[] = [], maxAttempts = 5, baseDelayMs = 1000) {
+    this.secret = secret || randomBytes(32).toString('hex');
+    this.secretConfigured = Boolean(secret);
+    this.subscriptions = subscriptions;
+    this.maxAttempts = maxAttempts;
+    this.baseDelayMs = baseDelayMs;
+  }
+
+  static fromEnv(): WebhookDispatcher {
+    const urls = (process.env.WEBHOOK_URLS || '').split(',').map(url => url.trim()).filter(Boolean);
+    const secret = process.env.WEBHOOK_SECRET;
+    if (!secret && urls.length > 0) {
+      console.warn('⚠️ WEBHOOK_SECRET not set: webhook signatures use a random secret');
+    }
+
+    return new WebhookDispatcher(
+      secret,
+      parseWebhooks(urls) ?? [],
+      Number(process.env.WEBHOOK_MAX_ATTEMPTS) || 5
+    );
+  }
+
+  get signed(): boolean {
+    return this.secretConfigured;
+  }
+
+  // En-tête X-Webhook-Signature : t=<timestamp>,v1=<HMAC-SHA256 de "<timestamp>.<corps>">
+  sign(timestamp: number, body: string): string {
+    const signature = createHmac('sha256', this.secret).update(`${timestamp}.${body}`).digest('hex');
+    return `t=${timestamp},v1=${signature}`;
+  }
+
+  // Envoie l'évènement aux webhooks globaux et à ceux du job ; chaque changement d'état est passé à onUpdate
+  dispatch(
+    event: WebhookEvent,
+    data: Record<string, unknown>,
+    jobSubscriptions: WebhookSubscription[] = [],
+    onUpdate: (delivery: WebhookDelivery) => void = () => {}
+  ): void {
+    const targets = [...this.subscriptions, ...jobSubscriptions].filter(
+      subscription => !subscription.events || subscription.events.includes(event)
+    );
+
+    for (const { url } of targets) {
+      const delivery: WebhookDelivery = {
+        id: randomUUID(),
+        event,
+        url,
+        status: 'pending',
+        attempts: 0,
+        createdAt: new Date().toISOString(),
+      };
+      const body = JSON.stringify({ id: delivery.id, event, createdAt: delivery.createdAt, ...data });
+
+      onUpdate({ ...delivery });
+      this.deliver(delivery, body, onUpdate).catch(error => {
+        console.error(`❌ Webhook delivery ${delivery.id} crashed:`, error);
+      });
+    }
+  }
+
+  private async deliver(
+    delivery: WebhookDelivery,
+    body: string,
+    onUpdate: (delivery: WebhookDelivery) => void
+  ): Promise<void> {
+    for (let attempt = 1; attempt <= this.maxAttempts; attempt++) {
+      delivery.attempts = attempt;
+      let retryable = true;
+
+      try {
+        const timestamp = Math.floor(Date.now() / 1000);
+        const response = await fetch(delivery.url, {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            'User-Agent': 'claude-doc-bot-webhooks',
+            'X-Webhook-Event': delivery.event,
+            'X-Webhook-Delivery': delivery.id,
+            'X-Webhook-Signature': this.sign(timestamp, body),
+          },
+          body,
+          signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+        });
+
+        delivery.responseStatus = response.status;
+        // Corps de réponse ignoré : le libérer pour ne pas garder la connexion ouverte
+        await response.body?.cancel().catch(() => undefined);
+        if (response.ok) {
+          delivery.status = 'delivered';
+          delivery.error = undefined;
+          delivery.finishedAt = new Date().toISOString();
+          onUpdate({ ...delivery });
+          return;
+        }
+
+        delivery.error = `HTTP ${response.status}`;
+        // Requête refusée par le destinataire : inutile de réessayer
+        retryable = response.status === 408 || response.status === 429 || response.status >= 500;
+      } catch (error) {
+        delivery.error = error instanceof Error ? error.message : 'Unknown error';
+      }
+
+      if (!retryable || attempt === this.maxAttempts) break;
+
+      onUpdate({ ...delivery });
+      const delayMs = Math.min(this.baseDelayMs * 2 ** (attempt - 1), MAX_RETRY_DELAY_MS);
+      console.warn(`🔁 Webhook ${delivery.event} to ${delivery.url}: ${delivery.error}, retry in ${delayMs}ms`);
+      await new Promise(resolve => setTimeout(resolve, delayMs));
+    }
+
+    delivery.status = 'failed';
+    delivery.finishedAt = new Date().toISOString();
+    onUpdate({ ...delivery });
+    console.error(`❌ Webhook ${delivery.event} to ${delivery.url} failed after ${delivery.attempts} attempts: ${delivery.error}`);
+  }
+}
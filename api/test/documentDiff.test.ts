@@ -0,0 +1,63 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { diffVersions } from '../src/documentDiff.js';
+import type { DocumentVersion } from '../src/documentStore.js';
+
+function version(version: number, content: string): DocumentVersion {
+  return {
+    version,
+    jobId: `job-${version}`,
+    filename: 'guide.md',
+    model: 'claude-3-5-sonnet-20241022',
+    provider: 'anthropic',
+    content,
+    createdAt: new Date('2024-01-01T00:00:00Z'),
+  };
+}
+
+describe('diffVersions', () => {
+  const from = version(1, '# Guide\n\nInstall the package.\n\nRun it.\n');
+  const to = version(2, '# Guide\n\nInstall the CLI.\n\nRun it.\n');
+
+  it('builds a unified patch labelled with both versions', () => {
+    const diff = diffVersions(from, to, 'unified');
+    if (diff.format !== 'unified') return assert.fail('expected a unified diff');
+
+    assert.match(diff.patch, /^--- guide\.md@v1/m);
+    assert.match(diff.patch, /^\+\+\+ guide\.md@v2/m);
+    assert.equal(diff.hunks.length, 1);
+    assert.deepEqual(
+      diff.hunks[0].lines.filter(line => !line.startsWith(' ')),
+      ['-Install the package.', '+Install the CLI.']
+    );
+  });
+
+  it('limits context lines around changes', () => {
+    const diff = diffVersions(from, to, 'unified', 0);
+    if (diff.format !== 'unified') return assert.fail('expected a unified diff');
+
+    assert.deepEqual(diff.hunks[0].lines, ['-Install the package.', '+Install the CLI.']);
+    assert.equal(diff.hunks[0].oldStart, 3);
+  });
+
+  it('drops "no newline at end of file" markers from hunks', () => {
+    const diff = diffVersions(version(1, 'a'), version(2, 'b'), 'unified');
+    if (diff.format !== 'unified') return assert.fail('expected a unified diff');
+
+    assert.deepEqual(diff.hunks[0].lines, ['-a', '+b']);
+  });
+
+  it('lists word-level changes', () => {
+    const diff = diffVersions(from, to, 'words');
+    if (diff.format !== 'words') return assert.fail('expected a word diff');
+
+    assert.deepEqual(
+      diff.changes.filter(change => change.added || change.removed),
+      [
+        { value: 'package', added: undefined, removed: true },
+        { value: 'CLI', added: true, removed: undefined },
+      ]
+    );
+    assert.equal(diff.changes.map(change => (change.removed ? '' : change.value)).join(''), to.content);
+  });
+});
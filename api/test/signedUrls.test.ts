@@ -0,0 +1,46 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { UrlSigner } from '../src/signedUrls.js';
+
+const PATH = '/api/outputs/job-1/guide.md';
+
+function query(url: string) {
+  const params = new URL(url, 'http://localhost').searchParams;
+  return { expires: params.get('expires') ?? undefined, signature: params.get('signature') ?? undefined };
+}
+
+describe('UrlSigner', () => {
+  const signer = new UrlSigner('secret');
+
+  it('verifies the links it signed', () => {
+    const { url, expiresAt } = signer.sign(PATH, 60);
+    const { expires, signature } = query(url);
+
+    assert.ok(url.startsWith(`${PATH}?`));
+    assert.equal(expiresAt.getTime(), Number(expires) * 1000);
+    assert.equal(signer.verify(PATH, expires, signature), true);
+  });
+
+  it('rejects another path, another secret or a changed expiry', () => {
+    const { expires, signature } = query(signer.sign(PATH, 60).url);
+
+    assert.equal(signer.verify('/api/outputs/job-1/other.md', expires, signature), false);
+    assert.equal(new UrlSigner('other').verify(PATH, expires, signature), false);
+    assert.equal(signer.verify(PATH, String(Number(expires) + 60), signature), false);
+  });
+
+  it('rejects expired links', () => {
+    const { expires, signature } = query(signer.sign(PATH, -1).url);
+    assert.equal(signer.verify(PATH, expires, signature), false);
+  });
+
+  it('rejects missing or malformed parameters', () => {
+    const { expires, signature } = query(signer.sign(PATH, 60).url);
+
+    assert.equal(signer.verify(PATH, undefined, signature), false);
+    assert.equal(signer.verify(PATH, expires, ['a']), false);
+    assert.equal(signer.verify(PATH, expires, `${signature}`.slice(0, 63) + 'z'), false);
+    assert.equal(signer.verify(PATH, expires, `${signature}`.toUpperCase()), false);
+    assert.equal(signer.verify(PATH, '1e12', signature), false);
+  });
+});
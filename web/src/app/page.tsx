@@ -1,11 +1,19 @@
 'use client';
 
 import { useState, useEffect } from 'react';
+import ReactMarkdown from 'react-markdown';
 import { useWebSocket } from '@/hooks/useWebSocket';
 
 interface Job {
   id: string;
-  status: 'pending' | 'running' | 'completed' | 'failed';
+  status:
+    | 'pending'
+    | 'running'
+    | 'completed'
+    | 'failed'
+    | 'interrupted'
+    | 'paused'
+    | 'cancelled';
   progress: number;
   total: number;
   currentTask: string;
@@ -13,36 +21,320 @@ interface Job {
   completedAt?: string;
   error?: string;
   results?: any[];
+  generation?: {
+    provider?: string;
+    model: string;
+    maxTokens: number;
+    temperature: number;
+  };
+  usage?: {
+    inputTokens: number;
+    outputTokens: number;
+    requests: number;
+    // null si le modèle n'a pas de prix connu
+    cost: number | null;
+  };
+}
+
+interface AdvancedSettings {
+  // Vide = provider par défaut du serveur
+  provider: '' | 'anthropic' | 'openai' | 'demo';
+  model: string;
+  maxTokens: string;
+  temperature: string;
+  stopSequences: string;
+  systemPrompt: string;
+  longForm: boolean;
+  maxContinuations: string;
+  repair: boolean;
+  cache: 'use' | 'bypass' | 'refresh';
+  // Une URL par ligne, notifiée des évènements du job
+  webhooks: string;
+}
+
+const MODEL_SUGGESTIONS = [
+  'claude-3-5-sonnet-20241022',
+  'claude-3-5-haiku-20241022',
+  'claude-3-opus-20240229',
+];
+
+type PromptMode = 'demo' | 'custom' | 'template';
+
+interface TemplateInput {
+  template: string;
+  dataset: string;
+  datasetFormat: 'csv' | 'json';
+  filenameTemplate: string;
+}
+
+interface ExpandedPrompt {
+  prompt: string;
+  variables: Record<string, string>;
+  filename: string;
+}
+
+interface QualityFinding {
+  rule: string;
+  severity: 'error' | 'warning';
+  message: string;
+  line: number;
 }
 
 interface Output {
+  index: number;
+  prompt: string;
   filename: string;
+  truncated: boolean;
+  sources: string[];
+  findings: QualityFinding[];
+  repaired: boolean;
+  documentId: string;
   downloadUrl: string;
+  signedUrl: string;
+  expiresAt: string;
+}
+
+interface SourceUpload {
+  sourceId: string;
+  name: string;
+  fileCount: number;
+}
+
+interface Site {
+  url: string;
+  archives: Record<string, string>;
+}
+
+interface Schedule {
+  id: string;
+  name: string;
+  cron: string;
+  timezone?: string;
+  promptCount?: number;
+  nextRunAt?: string;
+  lastRunAt?: string;
+  lastSkippedAt?: string;
+  lastJob?: {
+    id: string;
+    status: Job['status'];
+    progress: number;
+    total: number;
+    completedAt?: string;
+    error?: string;
+  };
+}
+
+interface JobSummary {
+  id: string;
+  status: Job['status'];
+  progress: number;
+  total: number;
+  createdAt: string;
+  completedAt?: string;
+  error?: string;
+  provider?: string;
+  model: string;
+  promptCount: number;
+  firstPrompt?: string;
+  usage?: Job['usage'];
+  scheduleId?: string;
+}
+
+interface HistoryFilters {
+  status: '' | Job['status'];
+  q: string;
+  from: string;
+  to: string;
+}
+
+const HISTORY_PAGE_SIZE = 10;
+
+interface DocumentVersion {
+  version: number;
+  jobId: string;
+  filename: string;
+  model: string;
+  provider: string;
+  createdAt: string;
+  size: number;
+}
+
+interface DocumentHistory {
+  id: string;
+  prompt: string;
+  versions: DocumentVersion[];
+}
+
+interface DiffHunk {
+  oldStart: number;
+  newStart: number;
+  lines: string[];
+}
+
+interface WordChange {
+  value: string;
+  added?: boolean;
+  removed?: boolean;
+}
+
+type DiffView = 'side-by-side' | 'words';
+
+interface DiffRow {
+  type: 'hunk' | 'context' | 'change';
+  label?: string;
+  left?: { line: number; text: string };
+  right?: { line: number; text: string };
+}
+
+// Lignes supprimées et ajoutées consécutives mises en regard, bloc par bloc
+function sideBySideRows(hunks: DiffHunk[]): DiffRow[] {
+  const rows: DiffRow[] = [];
+
+  for (const hunk of hunks) {
+    rows.push({ type: 'hunk', label: `Lines ${hunk.oldStart} → ${hunk.newStart}` });
+    let oldLine = hunk.oldStart;
+    let newLine = hunk.newStart;
+    let removed: { line: number; text: string }[] = [];
+    let added: { line: number; text: string }[] = [];
+
+    const flush = () => {
+      for (let i = 0; i < Math.max(removed.length, added.length); i++) {
+        rows.push({ type: 'change', left: removed[i], right: added[i] });
+      }
+      removed = [];
+      added = [];
+    };
+
+    for (const line of hunk.lines) {
+      if (line.startsWith('-')) {
+        removed.push({ line: oldLine++, text: line.slice(1) });
+      } else if (line.startsWith('+')) {
+        added.push({ line: newLine++, text: line.slice(1) });
+      } else {
+        flush();
+        rows.push({
+          type: 'context',
+          left: { line: oldLine++, text: line.slice(1) },
+          right: { line: newLine++, text: line.slice(1) },
+        });
+      }
+    }
+    flush();
+  }
+
+  return rows;
+}
+
+interface ScheduleForm {
+  name: string;
+  cron: string;
+  timezone: string;
 }
 
 export default function HomePage() {
   const [currentJob, setCurrentJob] = useState<Job | null>(null);
   const [outputs, setOutputs] = useState<Output[]>([]);
+  const [archives, setArchives] = useState<Record<string, string>>({});
+  const [site, setSite] = useState<Site | null>(null);
+  // Versions d'un fichier généré et diff entre deux d'entre elles
+  const [documentHistory, setDocumentHistory] = useState<DocumentHistory | null>(null);
+  const [diffRange, setDiffRange] = useState({ from: 1, to: 1 });
+  const [diffView, setDiffView] = useState<DiffView>('side-by-side');
+  const [diff, setDiff] = useState<{ hunks?: DiffHunk[]; changes?: WordChange[] } | null>(null);
+  // Résultat du dernier export git du job affiché
+  const [exportStatus, setExportStatus] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(false);
   const [prompts, setPrompts] = useState<string[]>(['']);
-  const [useCustomPrompts, setUseCustomPrompts] = useState(false);
+  const [promptMode, setPromptMode] = useState<PromptMode>('demo');
+  const [templateInput, setTemplateInput] = useState<TemplateInput>({
+    template: '',
+    dataset: '',
+    datasetFormat: 'csv',
+    filenameTemplate: '',
+  });
+  const [preview, setPreview] = useState<ExpandedPrompt[] | null>(null);
+  const [templateError, setTemplateError] = useState<string | null>(null);
+  const [sourceUpload, setSourceUpload] = useState<SourceUpload | null>(null);
+  const [sourceInclude, setSourceInclude] = useState('');
+  const [sourceError, setSourceError] = useState<string | null>(null);
+  const [isUploading, setIsUploading] = useState(false);
+  const [selectedStream, setSelectedStream] = useState<number | null>(null);
+  const [showAdvanced, setShowAdvanced] = useState(false);
+  // Champs vides = valeurs par défaut de l'API
+  const [advanced, setAdvanced] = useState<AdvancedSettings>({
+    provider: '',
+    model: '',
+    maxTokens: '',
+    temperature: '',
+    stopSequences: '',
+    systemPrompt: '',
+    longForm: false,
+    maxContinuations: '',
+    repair: false,
+    cache: 'use',
+    webhooks: '',
+  });
+
+  const [schedules, setSchedules] = useState<Schedule[]>([]);
+  const [scheduleForm, setScheduleForm] = useState<ScheduleForm>({
+    name: '',
+    cron: '0 2 * * *',
+    timezone: '',
+  });
+  const [scheduleError, setScheduleError] = useState<string | null>(null);
+  const [showHistory, setShowHistory] = useState(false);
+  const [history, setHistory] = useState<{ jobs: JobSummary[]; total: number; page: number }>({
+    jobs: [],
+    total: 0,
+    page: 1,
+  });
+  const [historyFilters, setHistoryFilters] = useState<HistoryFilters>({ status: '', q: '', from: '', to: '' });
+
+  const [apiToken, setApiToken] = useState('');
+  const [tokenInput, setTokenInput] = useState('');
 
   const apiUrl = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3001';
-  const wsUrl = process.env.NEXT_PUBLIC_WS_URL || 'ws://localhost:3001';
+  const baseWsUrl = process.env.NEXT_PUBLIC_WS_URL || 'ws://localhost:3001';
+  // Le navigateur ne peut pas envoyer d'en-tête Authorization sur le WebSocket
+  const wsUrl = apiToken
+    ? `${baseWsUrl}?token=${encodeURIComponent(apiToken)}`
+    : baseWsUrl;
+
+  // Token API conservé dans le navigateur
+  useEffect(() => {
+    const saved = localStorage.getItem('apiToken') || '';
+    setApiToken(saved);
+    setTokenInput(saved);
+  }, []);
+
+  const saveApiToken = () => {
+    localStorage.setItem('apiToken', tokenInput);
+    setApiToken(tokenInput);
+  };
 
-  const { isConnected, logs, clearLogs } = useWebSocket(wsUrl, {
+  const authHeaders = (): Record<string, string> =>
+    apiToken ? { Authorization: `Bearer ${apiToken}` } : {};
+
+  // Planifications rafraîchies régulièrement : prochaine exécution et dernier job
+  useEffect(() => {
+    fetchSchedules();
+    const interval = setInterval(fetchSchedules, 30000);
+    return () => clearInterval(interval);
+  }, [apiToken]);
+
+  const { isConnected, logs, clearLogs, streams, clearStreams, subscribe, unsubscribe } = useWebSocket(wsUrl, {
     onMessage: (message) => {
       if (message.type === 'job_update' && message.job) {
         setCurrentJob(message.job);
         
-        // Si le job est complété, fetch ses outputs
-        if (message.job.status === 'completed') {
+        // Si le job est complété ou arrêté, fetch ses outputs
+        if (['completed', 'paused', 'cancelled'].includes(message.job.status)) {
           fetchOutputs(message.job.id);
         }
       }
       
-      if (message.type === 'job_completed' && currentJob?.id) {
-        fetchOutputs(currentJob.id);
+      if (message.type === 'job_completed' && message.jobId) {
+        fetchOutputs(message.jobId);
       }
     },
   });
@@ -51,9 +343,13 @@ export default function HomePage() {
     if (!jobId) return;
     
     try {
-      const response = await fetch(`${apiUrl}/api/outputs/${jobId}`);
+      const response = await fetch(`${apiUrl}/api/outputs/${jobId}`, {
+        headers: authHeaders(),
+      });
       const data = await response.json();
       setOutputs(data.outputs || []);
+      setArchives(data.archives || {});
+      setSite(data.site || null);
     } catch (error) {
       console.error('Error fetching outputs:', error);
     }
@@ -75,45 +371,153 @@ export default function HomePage() {
     }
   };
 
+  const updateTemplateInput = (field: keyof TemplateInput, value: string) => {
+    setTemplateInput({ ...templateInput, [field]: value });
+    setPreview(null);
+    setTemplateError(null);
+  };
+
+  const buildTemplateRequest = () => ({
+    template: templateInput.template,
+    dataset: templateInput.dataset,
+    datasetFormat: templateInput.datasetFormat,
+    ...(templateInput.filenameTemplate.trim() && {
+      filenameTemplate: templateInput.filenameTemplate.trim(),
+    }),
+  });
+
+  // Affiche les prompts générés avant de lancer le job
+  const previewTemplate = async () => {
+    try {
+      const response = await fetch(`${apiUrl}/api/templates/preview`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...authHeaders(),
+        },
+        // Le provider choisi détermine le pattern de noms par défaut
+        body: JSON.stringify({
+          ...buildTemplateRequest(),
+          ...(advanced.provider && { provider: advanced.provider }),
+        }),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        setPreview(null);
+        setTemplateError(data.error);
+        return;
+      }
+
+      setPreview(data.prompts);
+      setTemplateError(null);
+    } catch (error) {
+      console.error('Error previewing template:', error);
+    }
+  };
+
+  // Archive .zip/.tar.gz envoyée telle quelle, fichiers isolés envoyés en JSON
+  const uploadSources = async (files: FileList | null) => {
+    if (!files || files.length === 0) return;
+
+    try {
+      setIsUploading(true);
+      setSourceError(null);
+
+      const first = files[0];
+      const isArchive = files.length === 1 && /\.(zip|tar\.gz|tgz)$/i.test(first.name);
+
+      const response = isArchive
+        ? await fetch(`${apiUrl}/api/sources?name=${encodeURIComponent(first.name)}`, {
+            method: 'POST',
+            headers: {
+              'Content-Type': first.name.toLowerCase().endsWith('.zip') ? 'application/zip' : 'application/gzip',
+              ...authHeaders(),
+            },
+            body: first,
+          })
+        : await fetch(`${apiUrl}/api/sources`, {
+            method: 'POST',
+            headers: {
+              'Content-Type': 'application/json',
+              ...authHeaders(),
+            },
+            body: JSON.stringify({
+              name: `${files.length} files`,
+              files: await Promise.all(
+                Array.from(files).map(async file => ({ path: file.name, content: await file.text() }))
+              ),
+            }),
+          });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        setSourceUpload(null);
+        setSourceError(data.error);
+        return;
+      }
+
+      setSourceUpload({ sourceId: data.sourceId, name: data.name, fileCount: data.fileCount });
+    } catch (error) {
+      console.error('Error uploading sources:', error);
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  const buildSourceRequest = () => {
+    if (!sourceUpload) return {};
+
+    const include = sourceInclude
+      .split(/[\n,]/)
+      .map(glob => glob.trim())
+      .filter(Boolean);
+
+    return {
+      sourceId: sourceUpload.sourceId,
+      ...(include.length > 0 && { sourceInclude: include }),
+    };
+  };
+
   const startJob = async () => {
     try {
       setIsLoading(true);
       clearLogs();
+      clearStreams();
+      setSelectedStream(null);
       setOutputs([]); // Clear previous outputs
-      
-      const requestBody = useCustomPrompts 
-        ? { prompts: prompts.filter(p => p.trim()) }
-        : {};
+      setArchives({});
+      setSite(null);
+      setExportStatus(null);
       
       const response = await fetch(`${apiUrl}/api/run`, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
+          ...authHeaders(),
         },
-        body: JSON.stringify(requestBody),
+        body: JSON.stringify(buildJobRequest()),
       });
 
       const data = await response.json();
+
+      if (!response.ok) {
+        console.error('Error starting job:', data.error);
+        if (promptMode === 'template') {
+          setTemplateError(data.error);
+        }
+        return;
+      }
       
       if (data.jobId) {
-        // Polling pour récupérer le statut du job
-        const pollJob = async () => {
-          try {
-            const statusResponse = await fetch(`${apiUrl}/api/status/${data.jobId}`);
-            const jobData = await statusResponse.json();
-            setCurrentJob(jobData);
-            
-            if (jobData.status === 'running') {
-              setTimeout(pollJob, 1000);
-            } else if (jobData.status === 'completed') {
-              fetchOutputs(data.jobId);
-            }
-          } catch (error) {
-            console.error('Error polling job:', error);
-          }
-        };
-        
-        pollJob();
+        // Ne suivre que le job lancé par cet onglet
+        if (currentJob) {
+          unsubscribe(currentJob.id);
+        }
+        subscribe(data.jobId);
+        pollJob(data.jobId);
       }
     } catch (error) {
       console.error('Error starting job:', error);
@@ -122,12 +526,273 @@ export default function HomePage() {
     }
   };
 
+  // Prompts, sources et paramètres : corps commun à /api/run et /api/schedules
+  const buildJobRequest = () => ({
+    ...(promptMode === 'custom' && { prompts: prompts.filter(p => p.trim()) }),
+    ...(promptMode === 'template' && buildTemplateRequest()),
+    ...buildSourceRequest(),
+    ...buildGenerationSettings(),
+  });
+
+  const fetchHistory = async (page = 1) => {
+    const params = new URLSearchParams({ page: String(page), pageSize: String(HISTORY_PAGE_SIZE) });
+    for (const [key, value] of Object.entries(historyFilters)) {
+      if (value) params.set(key, value);
+    }
+
+    try {
+      const response = await fetch(`${apiUrl}/api/jobs?${params}`, { headers: authHeaders() });
+      const data = await response.json();
+      if (response.ok) {
+        setHistory({ jobs: data.jobs, total: data.total, page: data.page });
+      } else {
+        console.error('Error fetching job history:', data.error);
+      }
+    } catch (error) {
+      console.error('Error fetching job history:', error);
+    }
+  };
+
+  // Rouvre un job passé : statut, résultats, fichiers et mises à jour en direct s'il tourne encore
+  const openJob = (jobId: string) => {
+    clearLogs();
+    clearStreams();
+    setSelectedStream(null);
+    setOutputs([]);
+    setArchives({});
+    setSite(null);
+    setExportStatus(null);
+
+    if (currentJob) {
+      unsubscribe(currentJob.id);
+    }
+    subscribe(jobId);
+    pollJob(jobId);
+    fetchOutputs(jobId);
+  };
+
+  const fetchSchedules = async () => {
+    try {
+      const response = await fetch(`${apiUrl}/api/schedules`, { headers: authHeaders() });
+      if (response.ok) {
+        const data = await response.json();
+        setSchedules(data.schedules);
+      }
+    } catch (error) {
+      console.error('Error fetching schedules:', error);
+    }
+  };
+
+  const createSchedule = async () => {
+    setScheduleError(null);
+    try {
+      const response = await fetch(`${apiUrl}/api/schedules`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...authHeaders(),
+        },
+        body: JSON.stringify({
+          ...buildJobRequest(),
+          name: scheduleForm.name,
+          cron: scheduleForm.cron,
+          ...(scheduleForm.timezone.trim() && { timezone: scheduleForm.timezone.trim() }),
+        }),
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        setScheduleError(data.error);
+        return;
+      }
+
+      setScheduleForm({ ...scheduleForm, name: '' });
+      fetchSchedules();
+    } catch (error) {
+      console.error('Error creating schedule:', error);
+    }
+  };
+
+  const deleteSchedule = async (scheduleId: string) => {
+    try {
+      await fetch(`${apiUrl}/api/schedules/${scheduleId}`, {
+        method: 'DELETE',
+        headers: authHeaders(),
+      });
+      fetchSchedules();
+    } catch (error) {
+      console.error('Error deleting schedule:', error);
+    }
+  };
+
+  // Seuls les paramètres renseignés sont envoyés
+  const buildGenerationSettings = () => {
+    const stopSequences = advanced.stopSequences
+      .split('\n')
+      .filter(sequence => sequence.length > 0);
+    const webhooks = advanced.webhooks
+      .split('\n')
+      .map(url => url.trim())
+      .filter(Boolean);
+
+    return {
+      ...(advanced.provider && { provider: advanced.provider }),
+      ...(advanced.model.trim() && { model: advanced.model.trim() }),
+      ...(advanced.maxTokens && { maxTokens: Number(advanced.maxTokens) }),
+      ...(advanced.temperature && { temperature: Number(advanced.temperature) }),
+      ...(stopSequences.length > 0 && { stopSequences }),
+      ...(advanced.systemPrompt.trim() && { systemPrompt: advanced.systemPrompt }),
+      ...(advanced.longForm && { longForm: true }),
+      ...(advanced.maxContinuations && { maxContinuations: Number(advanced.maxContinuations) }),
+      ...(advanced.repair && { repair: true }),
+      ...(advanced.cache !== 'use' && { cache: advanced.cache }),
+      ...(webhooks.length > 0 && { webhooks }),
+    };
+  };
+
+  const updateAdvanced = (field: keyof AdvancedSettings, value: string | boolean) => {
+    setAdvanced({ ...advanced, [field]: value });
+  };
+
+  // Polling pour récupérer le statut du job
+  const pollJob = async (jobId: string) => {
+    try {
+      const statusResponse = await fetch(`${apiUrl}/api/status/${jobId}`, {
+        headers: authHeaders(),
+      });
+      const jobData = await statusResponse.json();
+      setCurrentJob(jobData);
+      
+      if (jobData.status === 'running') {
+        setTimeout(() => pollJob(jobId), 1000);
+      } else if (['completed', 'paused', 'cancelled'].includes(jobData.status)) {
+        fetchOutputs(jobId);
+      }
+    } catch (error) {
+      console.error('Error polling job:', error);
+    }
+  };
+
+  const controlJob = async (action: 'cancel' | 'pause' | 'resume') => {
+    if (!currentJob) return;
+
+    try {
+      const response = await fetch(`${apiUrl}/api/${action}/${currentJob.id}`, {
+        method: 'POST',
+        headers: authHeaders(),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        console.error(`Error on ${action}:`, data.error);
+        return;
+      }
+
+      if (action === 'resume') {
+        pollJob(currentJob.id);
+      }
+    } catch (error) {
+      console.error(`Error on ${action}:`, error);
+    }
+  };
+
+  const fetchDiff = async (documentId: string, from: number, to: number, view: DiffView) => {
+    const format = view === 'words' ? 'words' : 'unified';
+
+    try {
+      const response = await fetch(
+        `${apiUrl}/api/documents/${documentId}/diff?from=${from}&to=${to}&format=${format}`,
+        { headers: authHeaders() }
+      );
+      const data = await response.json();
+      if (response.ok) {
+        setDiff(data);
+      } else {
+        console.error('Error fetching diff:', data.error);
+      }
+    } catch (error) {
+      console.error('Error fetching diff:', error);
+    }
+  };
+
+  // Historique d'un fichier : dernière version comparée à la précédente
+  const openDocumentHistory = async (documentId: string) => {
+    try {
+      const response = await fetch(`${apiUrl}/api/documents/${documentId}`, { headers: authHeaders() });
+      const data = await response.json();
+      if (!response.ok) {
+        console.error('Error fetching document history:', data.error);
+        return;
+      }
+
+      const to = data.versions.length;
+      const from = Math.max(1, to - 1);
+      setDocumentHistory(data);
+      setDiffRange({ from, to });
+      setDiff(null);
+      if (to > 1) {
+        fetchDiff(documentId, from, to, diffView);
+      }
+    } catch (error) {
+      console.error('Error fetching document history:', error);
+    }
+  };
+
+  const updateDiff = (range: { from: number; to: number }, view: DiffView) => {
+    setDiffRange(range);
+    setDiffView(view);
+    if (documentHistory) {
+      fetchDiff(documentHistory.id, range.from, range.to, view);
+    }
+  };
+
+  // Commit des fichiers dans le dépôt git configuré côté API (dossier et branche par défaut)
+  const exportToGit = async () => {
+    if (!currentJob) return;
+
+    try {
+      setExportStatus('Exporting...');
+      const response = await fetch(`${apiUrl}/api/export/${currentJob.id}`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...authHeaders(),
+        },
+        body: JSON.stringify({}),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        setExportStatus(`Export failed: ${data.error}`);
+      } else if (data.commit) {
+        setExportStatus(`Committed ${data.added.length} new and ${data.modified.length} updated files on ${data.branch} (${data.commit.slice(0, 7)})`);
+      } else {
+        setExportStatus('Repository already up to date, nothing to commit');
+      }
+    } catch (error) {
+      console.error('Error exporting job:', error);
+      setExportStatus('Export failed');
+    }
+  };
+
+  // Lien signé partageable avec des relecteurs sans token API
+  const copySignedLink = async (output: Output) => {
+    try {
+      await navigator.clipboard.writeText(`${apiUrl}${output.signedUrl}`);
+    } catch (error) {
+      console.error('Error copying link:', error);
+    }
+  };
+
   const getStatusColor = (status: string) => {
     switch (status) {
       case 'pending': return 'status-pending';
       case 'running': return 'status-running';
       case 'completed': return 'status-completed';
       case 'failed': return 'status-failed';
+      case 'interrupted': return 'status-interrupted';
+      case 'paused': return 'status-paused';
+      case 'cancelled': return 'status-cancelled';
       default: return 'bg-gray-100 text-gray-800 border-gray-200';
     }
   };
@@ -136,8 +801,24 @@ export default function HomePage() {
     return new Date(timestamp).toLocaleTimeString('en-US');
   };
 
-  const canStartJob = !isLoading && (!currentJob || ['completed', 'failed'].includes(currentJob.status));
+  // Aperçu live : le prompt choisi, sinon le dernier document mis à jour
+  const jobStreams = Object.values(streams)
+    .filter(stream => stream.jobId === currentJob?.id)
+    .sort((a, b) => a.index - b.index);
+  const activeStream =
+    jobStreams.find(stream => stream.index === selectedStream) ??
+    [...jobStreams].sort((a, b) => b.updatedAt - a.updatedAt)[0];
+
+  const canStartJob = !isLoading && (!currentJob || ['completed', 'failed', 'interrupted', 'paused', 'cancelled'].includes(currentJob.status));
   const validPrompts = prompts.filter(p => p.trim()).length;
+  const promptCount =
+    promptMode === 'custom' ? validPrompts : promptMode === 'template' ? preview?.length : undefined;
+  const hasPrompts =
+    promptMode === 'custom'
+      ? validPrompts > 0
+      : promptMode === 'template'
+        ? templateInput.template.trim() !== '' && templateInput.dataset.trim() !== ''
+        : true;
 
   return (
     <div className="space-y-8">
@@ -147,7 +828,7 @@ export default function HomePage() {
           <div>
             <h2 className="text-xl font-semibold text-gray-900">Prompt Configuration</h2>
             <p className="text-gray-600 mt-1">
-              Choose between demo prompts or create your own custom prompts
+              Choose between demo prompts, your own custom prompts or a template expanded over a dataset
             </p>
           </div>
         </div>
@@ -157,8 +838,8 @@ export default function HomePage() {
             <label className="flex items-center space-x-2">
               <input
                 type="radio"
-                checked={!useCustomPrompts}
-                onChange={() => setUseCustomPrompts(false)}
+                checked={promptMode === 'demo'}
+                onChange={() => setPromptMode('demo')}
                 className="text-blue-600"
               />
               <span>Use demo prompts (recommended for testing)</span>
@@ -166,15 +847,24 @@ export default function HomePage() {
             <label className="flex items-center space-x-2">
               <input
                 type="radio"
-                checked={useCustomPrompts}
-                onChange={() => setUseCustomPrompts(true)}
+                checked={promptMode === 'custom'}
+                onChange={() => setPromptMode('custom')}
                 className="text-blue-600"
               />
               <span>Use custom prompts</span>
             </label>
+            <label className="flex items-center space-x-2">
+              <input
+                type="radio"
+                checked={promptMode === 'template'}
+                onChange={() => setPromptMode('template')}
+                className="text-blue-600"
+              />
+              <span>Template + dataset</span>
+            </label>
           </div>
 
-          {!useCustomPrompts && (
+          {promptMode === 'demo' && (
             <div className="bg-blue-50 border border-blue-200 rounded-lg p-4">
               <h4 className="font-medium text-blue-900 mb-2">Demo Prompts Available:</h4>
               <ul className="text-blue-800 text-sm space-y-1">
@@ -184,7 +874,7 @@ export default function HomePage() {
             </div>
           )}
 
-          {useCustomPrompts && (
+          {promptMode === 'custom' && (
             <div className="space-y-4">
               {prompts.map((prompt, index) => (
                 <div key={index} className="border border-gray-200 rounded-lg p-4">
@@ -219,9 +909,308 @@ export default function HomePage() {
               </button>
             </div>
           )}
+
+          {promptMode === 'template' && (
+            <div className="space-y-4">
+              <label className="block">
+                <span className="text-sm font-medium text-gray-700">
+                  Template (use {'{{variable}}'} placeholders)
+                </span>
+                <textarea
+                  value={templateInput.template}
+                  onChange={(e) => updateTemplateInput('template', e.target.value)}
+                  placeholder="Write the API reference for the {{service}} service, owned by {{team}}..."
+                  className="mt-1 w-full h-24 p-3 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-transparent resize-none"
+                />
+              </label>
+
+              <label className="block">
+                <span className="text-sm font-medium text-gray-700">Dataset (one prompt per row)</span>
+                <textarea
+                  value={templateInput.dataset}
+                  onChange={(e) => updateTemplateInput('dataset', e.target.value)}
+                  placeholder={
+                    templateInput.datasetFormat === 'csv'
+                      ? 'service,team\nbilling,payments\nusers,identity'
+                      : '[{"service": "billing", "team": "payments"}]'
+                  }
+                  className="mt-1 w-full h-32 p-3 border border-gray-300 rounded-md font-mono text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent resize-none"
+                />
+              </label>
+
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <label className="block">
+                  <span className="text-sm font-medium text-gray-700">Dataset format</span>
+                  <select
+                    value={templateInput.datasetFormat}
+                    onChange={(e) => updateTemplateInput('datasetFormat', e.target.value)}
+                    className="mt-1 w-full p-2 border border-gray-300 rounded-md text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  >
+                    <option value="csv">CSV</option>
+                    <option value="json">JSON</option>
+                  </select>
+                </label>
+
+                <label className="block md:col-span-2">
+                  <span className="text-sm font-medium text-gray-700">
+                    Filename pattern (optional: {'{{index}}'}, {'{{slug}}'}, {'{{hash}}'} or any column)
+                  </span>
+                  <input
+                    value={templateInput.filenameTemplate}
+                    onChange={(e) => updateTemplateInput('filenameTemplate', e.target.value)}
+                    placeholder="{{service}}-api"
+                    className="mt-1 w-full p-2 border border-gray-300 rounded-md text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  />
+                </label>
+              </div>
+
+              <button
+                onClick={previewTemplate}
+                disabled={!hasPrompts}
+                className="btn-secondary flex items-center space-x-2"
+              >
+                <span>👁️</span>
+                <span>Preview prompts</span>
+              </button>
+
+              {templateError && (
+                <div className="bg-red-50 border border-red-200 rounded-lg p-3 text-sm text-red-700">
+                  {templateError}
+                </div>
+              )}
+
+              {preview && (
+                <div className="space-y-2 max-h-80 overflow-y-auto">
+                  {preview.map((item, index) => (
+                    <div key={index} className="border border-gray-200 rounded-lg p-3">
+                      <div className="text-xs text-gray-500 mb-1">
+                        Prompt {index + 1} → {item.filename} ·{' '}
+                        {Object.entries(item.variables)
+                          .map(([name, value]) => `${name}=${value}`)
+                          .join(', ')}
+                      </div>
+                      <p className="text-sm text-gray-800 whitespace-pre-wrap">{item.prompt}</p>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
         </div>
       </div>
 
+      {/* Source Code Section */}
+      <div className="card">
+        <div className="mb-4">
+          <h2 className="text-xl font-semibold text-gray-900">Source Code</h2>
+          <p className="text-gray-600 mt-1">
+            Optional: attach source files or a .zip / .tar.gz of your repository so the docs describe your real code
+          </p>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <label className="block">
+            <span className="text-sm font-medium text-gray-700">Files or archive</span>
+            <input
+              type="file"
+              multiple
+              onChange={(e) => uploadSources(e.target.files)}
+              disabled={isUploading}
+              className="mt-1 block w-full text-sm text-gray-700"
+            />
+          </label>
+
+          <label className="block">
+            <span className="text-sm font-medium text-gray-700">Include globs (optional, one per line)</span>
+            <textarea
+              value={sourceInclude}
+              onChange={(e) => setSourceInclude(e.target.value)}
+              placeholder="src/**/*.ts"
+              className="mt-1 w-full h-16 p-2 border border-gray-300 rounded-md text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent resize-none"
+            />
+          </label>
+        </div>
+
+        {isUploading && <div className="mt-3 text-sm text-gray-500">Uploading...</div>}
+
+        {sourceError && (
+          <div className="mt-3 bg-red-50 border border-red-200 rounded-lg p-3 text-sm text-red-700">
+            {sourceError}
+          </div>
+        )}
+
+        {sourceUpload && (
+          <div className="mt-3 flex items-center justify-between bg-green-50 border border-green-200 rounded-lg p-3 text-sm text-green-800">
+            <span>
+              📎 {sourceUpload.name}: {sourceUpload.fileCount} source files attached
+            </span>
+            <button
+              onClick={() => setSourceUpload(null)}
+              className="text-red-600 hover:text-red-800 text-sm"
+            >
+              Remove
+            </button>
+          </div>
+        )}
+      </div>
+
+      {/* Advanced Settings Section */}
+      <div className="card">
+        <button
+          onClick={() => setShowAdvanced(!showAdvanced)}
+          className="flex items-center justify-between w-full text-left"
+        >
+          <div>
+            <h2 className="text-xl font-semibold text-gray-900">Advanced Settings</h2>
+            <p className="text-gray-600 mt-1">
+              Model and generation parameters (leave empty for defaults)
+            </p>
+          </div>
+          <span className="text-gray-500">{showAdvanced ? '▲' : '▼'}</span>
+        </button>
+
+        {showAdvanced && (
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mt-6">
+            <label className="block">
+              <span className="text-sm font-medium text-gray-700">Provider</span>
+              <select
+                value={advanced.provider}
+                onChange={(e) => updateAdvanced('provider', e.target.value)}
+                className="mt-1 w-full p-2 border border-gray-300 rounded-md text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              >
+                <option value="">Server default</option>
+                <option value="anthropic">Anthropic API</option>
+                <option value="openai">OpenAI-compatible server</option>
+                <option value="demo">Demo (simulated)</option>
+              </select>
+            </label>
+
+            <label className="block">
+              <span className="text-sm font-medium text-gray-700">Model</span>
+              <input
+                list="model-suggestions"
+                value={advanced.model}
+                onChange={(e) => updateAdvanced('model', e.target.value)}
+                placeholder="claude-3-5-sonnet-20241022"
+                className="mt-1 w-full p-2 border border-gray-300 rounded-md text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+              <datalist id="model-suggestions">
+                {MODEL_SUGGESTIONS.map(model => (
+                  <option key={model} value={model} />
+                ))}
+              </datalist>
+            </label>
+
+            <label className="block">
+              <span className="text-sm font-medium text-gray-700">Max tokens</span>
+              <input
+                type="number"
+                min={1}
+                max={64000}
+                value={advanced.maxTokens}
+                onChange={(e) => updateAdvanced('maxTokens', e.target.value)}
+                placeholder="4000"
+                className="mt-1 w-full p-2 border border-gray-300 rounded-md text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+            </label>
+
+            <label className="block">
+              <span className="text-sm font-medium text-gray-700">Temperature</span>
+              <input
+                type="number"
+                min={0}
+                max={1}
+                step={0.1}
+                value={advanced.temperature}
+                onChange={(e) => updateAdvanced('temperature', e.target.value)}
+                placeholder="0.7"
+                className="mt-1 w-full p-2 border border-gray-300 rounded-md text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+            </label>
+
+            <label className="block">
+              <span className="text-sm font-medium text-gray-700">Stop sequences (one per line)</span>
+              <textarea
+                value={advanced.stopSequences}
+                onChange={(e) => updateAdvanced('stopSequences', e.target.value)}
+                className="mt-1 w-full h-24 p-2 border border-gray-300 rounded-md text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent resize-none"
+              />
+            </label>
+
+            <label className="block md:col-span-2">
+              <span className="text-sm font-medium text-gray-700">System prompt</span>
+              <textarea
+                value={advanced.systemPrompt}
+                onChange={(e) => updateAdvanced('systemPrompt', e.target.value)}
+                placeholder="You are a technical documentation expert..."
+                className="mt-1 w-full h-24 p-2 border border-gray-300 rounded-md text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent resize-none"
+              />
+            </label>
+
+            <label className="flex items-center space-x-2">
+              <input
+                type="checkbox"
+                checked={advanced.longForm}
+                onChange={(e) => updateAdvanced('longForm', e.target.checked)}
+                className="text-blue-600"
+              />
+              <span className="text-sm font-medium text-gray-700">
+                Long-form (outline, then one request per section)
+              </span>
+            </label>
+
+            <label className="block">
+              <span className="text-sm font-medium text-gray-700">Max continuations on max_tokens</span>
+              <input
+                type="number"
+                min={0}
+                max={10}
+                value={advanced.maxContinuations}
+                onChange={(e) => updateAdvanced('maxContinuations', e.target.value)}
+                placeholder="3"
+                className="mt-1 w-full p-2 border border-gray-300 rounded-md text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+            </label>
+
+            <label className="flex items-center space-x-2">
+              <input
+                type="checkbox"
+                checked={advanced.repair}
+                onChange={(e) => updateAdvanced('repair', e.target.checked)}
+                className="text-blue-600"
+              />
+              <span className="text-sm font-medium text-gray-700">
+                Repair quality issues (re-prompt with the findings)
+              </span>
+            </label>
+
+            <label className="block">
+              <span className="text-sm font-medium text-gray-700">Response cache</span>
+              <select
+                value={advanced.cache}
+                onChange={(e) => updateAdvanced('cache', e.target.value)}
+                className="mt-1 w-full p-2 border border-gray-300 rounded-md text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              >
+                <option value="use">Reuse cached responses</option>
+                <option value="refresh">Regenerate and refresh cache</option>
+                <option value="bypass">Bypass cache</option>
+              </select>
+            </label>
+
+            <label className="block">
+              <span className="text-sm font-medium text-gray-700">Webhook URLs (one per line)</span>
+              <textarea
+                value={advanced.webhooks}
+                onChange={(e) => updateAdvanced('webhooks', e.target.value)}
+                rows={2}
+                placeholder="https://example.com/hooks/doc-bot"
+                className="mt-1 w-full p-2 border border-gray-300 rounded-md text-sm font-mono focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+            </label>
+          </div>
+        )}
+      </div>
+
       {/* Job Control Section */}
       <div className="card">
         <div className="flex items-center justify-between mb-6">
@@ -238,7 +1227,7 @@ export default function HomePage() {
             </div>
             <button
               onClick={startJob}
-              disabled={!canStartJob || (useCustomPrompts && validPrompts === 0)}
+              disabled={!canStartJob || !hasPrompts}
               className="btn-primary flex items-center space-x-2"
             >
               {isLoading ? (
@@ -250,7 +1239,7 @@ export default function HomePage() {
                 <>
                   <span>🚀</span>
                   <span>
-                    Run Job {useCustomPrompts && `(${validPrompts} prompts)`}
+                    Run Job {promptCount !== undefined && `(${promptCount} prompts)`}
                   </span>
                 </>
               )}
@@ -258,6 +1247,23 @@ export default function HomePage() {
           </div>
         </div>
 
+        <div className="flex items-center space-x-2 mb-6">
+          <input
+            type="password"
+            value={tokenInput}
+            onChange={(e) => setTokenInput(e.target.value)}
+            placeholder="API token"
+            className="flex-1 p-2 border border-gray-300 rounded-md text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          />
+          <button
+            onClick={saveApiToken}
+            disabled={tokenInput === apiToken}
+            className="btn-secondary text-sm"
+          >
+            Save token
+          </button>
+        </div>
+
         {/* Current Job Status */}
         {currentJob && (
           <div className={`border rounded-lg p-4 ${getStatusColor(currentJob.status)}`}>
@@ -266,8 +1272,34 @@ export default function HomePage() {
                 <span className="font-medium">Job {currentJob.id.slice(0, 8)}</span>
                 <span className="text-sm capitalize">{currentJob.status}</span>
               </div>
-              <div className="text-sm">
-                {currentJob.progress}/{currentJob.total}
+              <div className="flex items-center space-x-3">
+                {currentJob.status === 'running' && (
+                  <button
+                    onClick={() => controlJob('pause')}
+                    className="btn-secondary text-sm py-1"
+                  >
+                    Pause
+                  </button>
+                )}
+                {['paused', 'interrupted'].includes(currentJob.status) && (
+                  <button
+                    onClick={() => controlJob('resume')}
+                    className="btn-secondary text-sm py-1"
+                  >
+                    Resume
+                  </button>
+                )}
+                {['pending', 'running', 'paused', 'interrupted'].includes(currentJob.status) && (
+                  <button
+                    onClick={() => controlJob('cancel')}
+                    className="btn-secondary text-sm py-1 text-red-700"
+                  >
+                    Cancel
+                  </button>
+                )}
+                <div className="text-sm">
+                  {currentJob.progress}/{currentJob.total}
+                </div>
               </div>
             </div>
             
@@ -286,6 +1318,21 @@ export default function HomePage() {
               {currentJob.currentTask && (
                 <div className="mb-1">{currentJob.currentTask}</div>
               )}
+
+              {currentJob.generation && (
+                <div className="mb-1 text-xs">
+                  {currentJob.generation.provider && `${currentJob.generation.provider} · `}
+                  {currentJob.generation.model} · {currentJob.generation.maxTokens} tokens · temperature {currentJob.generation.temperature}
+                </div>
+              )}
+
+              {currentJob.usage && currentJob.usage.requests > 0 && (
+                <div className="mb-1 text-xs">
+                  {currentJob.usage.inputTokens.toLocaleString('en-US')} input + {currentJob.usage.outputTokens.toLocaleString('en-US')} output tokens
+                  {' '}({currentJob.usage.requests} requests) · estimated cost{' '}
+                  {currentJob.usage.cost === null ? 'unknown' : `$${currentJob.usage.cost.toFixed(4)}`}
+                </div>
+              )}
               
               {currentJob.status === 'running' && (
                 <div className="flex items-center space-x-1 text-xs">
@@ -302,6 +1349,238 @@ export default function HomePage() {
         )}
       </div>
 
+      {/* Schedules Section */}
+      <div className="card">
+        <div className="mb-4">
+          <h2 className="text-xl font-semibold text-gray-900">Schedules</h2>
+          <p className="text-gray-600 mt-1">
+            Run the prompts and settings above on a cron schedule (runs are skipped while the previous job is still running)
+          </p>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-3 mb-4">
+          <input
+            value={scheduleForm.name}
+            onChange={(e) => setScheduleForm({ ...scheduleForm, name: e.target.value })}
+            placeholder="Nightly API reference"
+            className="p-2 border border-gray-300 rounded-md text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          />
+          <input
+            value={scheduleForm.cron}
+            onChange={(e) => setScheduleForm({ ...scheduleForm, cron: e.target.value })}
+            placeholder="0 2 * * *"
+            className="p-2 border border-gray-300 rounded-md text-sm font-mono focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          />
+          <input
+            value={scheduleForm.timezone}
+            onChange={(e) => setScheduleForm({ ...scheduleForm, timezone: e.target.value })}
+            placeholder="Timezone (e.g. Europe/Paris)"
+            className="p-2 border border-gray-300 rounded-md text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          />
+          <button
+            onClick={createSchedule}
+            disabled={!scheduleForm.name.trim() || !scheduleForm.cron.trim() || !hasPrompts}
+            className="btn-secondary text-sm"
+          >
+            Add schedule
+          </button>
+        </div>
+
+        {scheduleError && (
+          <div className="mb-4 text-sm text-red-700">{scheduleError}</div>
+        )}
+
+        {schedules.length === 0 ? (
+          <p className="text-sm text-gray-500">No schedules yet</p>
+        ) : (
+          <div className="space-y-2">
+            {schedules.map(schedule => (
+              <div key={schedule.id} className="flex items-center justify-between p-3 bg-gray-50 rounded-lg border text-sm">
+                <div>
+                  <div className="font-medium text-gray-900">
+                    {schedule.name}{' '}
+                    <span className="font-mono text-xs text-gray-500">
+                      {schedule.cron}{schedule.timezone && ` (${schedule.timezone})`}
+                    </span>
+                  </div>
+                  <div className="text-xs text-gray-600">
+                    {schedule.promptCount !== undefined ? `${schedule.promptCount} prompts` : 'Demo prompts'}
+                    {' · '}Next run: {schedule.nextRunAt ? new Date(schedule.nextRunAt).toLocaleString('en-US') : '-'}
+                  </div>
+                  <div className="text-xs text-gray-600">
+                    Last job:{' '}
+                    {schedule.lastJob ? (
+                      <span className={`px-1.5 rounded ${getStatusColor(schedule.lastJob.status)}`}>
+                        {schedule.lastJob.status} {schedule.lastJob.progress}/{schedule.lastJob.total}
+                      </span>
+                    ) : (
+                      'never run'
+                    )}
+                    {schedule.lastJob?.error && <span className="text-red-700"> · {schedule.lastJob.error}</span>}
+                    {schedule.lastSkippedAt && (
+                      <span> · last skipped {new Date(schedule.lastSkippedAt).toLocaleString('en-US')}</span>
+                    )}
+                  </div>
+                </div>
+                <button
+                  onClick={() => deleteSchedule(schedule.id)}
+                  className="btn-secondary text-xs py-1 text-red-700"
+                >
+                  Delete
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {/* Job History Section */}
+      <div className="card">
+        <button
+          onClick={() => {
+            if (!showHistory) fetchHistory(1);
+            setShowHistory(!showHistory);
+          }}
+          className="flex items-center justify-between w-full text-left"
+        >
+          <div>
+            <h2 className="text-xl font-semibold text-gray-900">Job History</h2>
+            <p className="text-gray-600 mt-1">
+              Reopen the status, results and files of earlier runs
+            </p>
+          </div>
+          <span className="text-gray-500">{showHistory ? '▲' : '▼'}</span>
+        </button>
+
+        {showHistory && (
+          <div className="mt-6">
+            <div className="grid grid-cols-1 md:grid-cols-5 gap-3 mb-4">
+              <select
+                value={historyFilters.status}
+                onChange={(e) => setHistoryFilters({ ...historyFilters, status: e.target.value as HistoryFilters['status'] })}
+                className="p-2 border border-gray-300 rounded-md text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              >
+                <option value="">All statuses</option>
+                {['pending', 'running', 'completed', 'failed', 'interrupted', 'paused', 'cancelled'].map(status => (
+                  <option key={status} value={status}>{status}</option>
+                ))}
+              </select>
+              <input
+                value={historyFilters.q}
+                onChange={(e) => setHistoryFilters({ ...historyFilters, q: e.target.value })}
+                placeholder="Search prompts"
+                className="p-2 border border-gray-300 rounded-md text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+              <input
+                type="date"
+                value={historyFilters.from}
+                onChange={(e) => setHistoryFilters({ ...historyFilters, from: e.target.value })}
+                className="p-2 border border-gray-300 rounded-md text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+              <input
+                type="date"
+                value={historyFilters.to}
+                onChange={(e) => setHistoryFilters({ ...historyFilters, to: e.target.value })}
+                className="p-2 border border-gray-300 rounded-md text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+              <button onClick={() => fetchHistory(1)} className="btn-secondary text-sm">
+                Search
+              </button>
+            </div>
+
+            {history.jobs.length === 0 ? (
+              <p className="text-sm text-gray-500">No jobs found</p>
+            ) : (
+              <div className="space-y-2">
+                {history.jobs.map(job => (
+                  <div key={job.id} className="flex items-center justify-between p-3 bg-gray-50 rounded-lg border text-sm">
+                    <div className="min-w-0">
+                      <div className="flex items-center space-x-2">
+                        <span className="font-medium text-gray-900">Job {job.id.slice(0, 8)}</span>
+                        <span className={`px-1.5 rounded text-xs ${getStatusColor(job.status)}`}>{job.status}</span>
+                        {job.scheduleId && <span className="text-xs text-gray-500">⏰ scheduled</span>}
+                      </div>
+                      <div className="text-xs text-gray-600 truncate">
+                        {new Date(job.createdAt).toLocaleString('en-US')} · {job.progress}/{job.total || job.promptCount} prompts ·{' '}
+                        {job.provider && `${job.provider} · `}{job.model}
+                        {job.usage?.cost != null && ` · $${job.usage.cost.toFixed(4)}`}
+                      </div>
+                      {job.firstPrompt && (
+                        <div className="text-xs text-gray-500 truncate">{job.firstPrompt}</div>
+                      )}
+                    </div>
+                    <button
+                      onClick={() => openJob(job.id)}
+                      className="btn-secondary text-xs py-1 ml-3"
+                    >
+                      Open
+                    </button>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {history.total > HISTORY_PAGE_SIZE && (
+              <div className="flex items-center justify-between mt-4 text-sm text-gray-600">
+                <button
+                  onClick={() => fetchHistory(history.page - 1)}
+                  disabled={history.page <= 1}
+                  className="btn-secondary text-xs py-1"
+                >
+                  ← Newer
+                </button>
+                <span>
+                  Page {history.page} of {Math.ceil(history.total / HISTORY_PAGE_SIZE)} ({history.total} jobs)
+                </span>
+                <button
+                  onClick={() => fetchHistory(history.page + 1)}
+                  disabled={history.page * HISTORY_PAGE_SIZE >= history.total}
+                  className="btn-secondary text-xs py-1"
+                >
+                  Older →
+                </button>
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+
+      {/* Live Preview Section */}
+      {activeStream && (
+        <div className="card">
+          <div className="flex items-center justify-between mb-4">
+            <h3 className="text-lg font-semibold text-gray-900">Live Preview</h3>
+            <div className="flex flex-wrap gap-2">
+              {jobStreams.map(stream => (
+                <button
+                  key={stream.index}
+                  onClick={() => setSelectedStream(stream.index)}
+                  className={`text-xs px-2 py-1 rounded border ${
+                    stream.index === activeStream.index
+                      ? 'bg-blue-100 border-blue-300 text-blue-800'
+                      : 'bg-gray-50 border-gray-200 text-gray-600'
+                  }`}
+                >
+                  #{stream.index + 1}{' '}
+                  {stream.done ? (stream.success === false ? '✗' : stream.truncated ? '⚠️' : '✓') : '…'}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div className="text-sm text-gray-500 mb-2 truncate">
+            {activeStream.prompt}
+          </div>
+
+          <div className="markdown-preview border border-gray-200 rounded-lg p-4 h-96 overflow-y-auto">
+            <ReactMarkdown>{activeStream.text}</ReactMarkdown>
+            {!activeStream.done && currentJob?.status === 'running' && (
+              <span className="animate-pulse-slow">▍</span>
+            )}
+          </div>
+        </div>
+      )}
+
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
         {/* Real-time Logs Section */}
         <div className="card">
@@ -335,7 +1614,57 @@ export default function HomePage() {
 
         {/* Generated Files Section */}
         <div className="card">
-          <h3 className="text-lg font-semibold text-gray-900 mb-4">Generated Files</h3>
+          <div className="flex items-center justify-between mb-4">
+            <h3 className="text-lg font-semibold text-gray-900">Generated Files</h3>
+            {outputs.length > 0 && archives.zip && (
+              <div className="flex items-center space-x-2">
+                {site && (
+                  <>
+                    <a
+                      href={`${apiUrl}${site.url}`}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="btn-secondary text-sm"
+                    >
+                      Browse site
+                    </a>
+                    <a
+                      href={`${apiUrl}${site.archives.zip}`}
+                      download
+                      className="btn-secondary text-sm"
+                    >
+                      Site .zip
+                    </a>
+                  </>
+                )}
+                {currentJob?.status === 'completed' && (
+                  <button onClick={exportToGit} className="btn-secondary text-sm">
+                    Commit to git
+                  </button>
+                )}
+                <a
+                  href={`${apiUrl}${archives.zip}`}
+                  download
+                  className="btn-primary text-sm"
+                >
+                  Download all
+                </a>
+                {archives['tar.gz'] && (
+                  <a
+                    href={`${apiUrl}${archives['tar.gz']}`}
+                    download
+                    className="btn-secondary text-sm"
+                  >
+                    .tar.gz
+                  </a>
+                )}
+              </div>
+            )}
+          </div>
+
+          {exportStatus && (
+            <div className="mb-4 text-sm text-gray-600">{exportStatus}</div>
+          )}
           
           {outputs.length === 0 ? (
             <div className="text-center py-8 text-gray-500">
@@ -355,20 +1684,69 @@ export default function HomePage() {
                     <div>
                       <div className="font-medium text-gray-900">
                         {output.filename}
+                        {output.truncated && (
+                          <span
+                            className="ml-2 text-xs text-yellow-700 bg-yellow-100 rounded px-1.5 py-0.5"
+                            title="Still cut off by max_tokens after all continuations"
+                          >
+                            truncated
+                          </span>
+                        )}
+                        {output.repaired && (
+                          <span
+                            className="ml-2 text-xs text-green-700 bg-green-100 rounded px-1.5 py-0.5"
+                            title="Rewritten after a re-prompt with the quality findings"
+                          >
+                            repaired
+                          </span>
+                        )}
                       </div>
-                      <div className="text-sm text-gray-500">
-                        Generated documentation
+                      <div className="text-sm text-gray-500 truncate max-w-md" title={output.prompt}>
+                        Prompt {output.index + 1}: {output.prompt}
                       </div>
+                      {output.sources.length > 0 && (
+                        <div className="text-xs text-gray-500" title={output.sources.join('\n')}>
+                          📎 Grounded in {output.sources.length} source files
+                        </div>
+                      )}
+                      {output.findings.length > 0 && (
+                        <ul className="mt-1 text-xs space-y-0.5">
+                          {output.findings.map((finding, findingIndex) => (
+                            <li
+                              key={findingIndex}
+                              className={finding.severity === 'error' ? 'text-red-600' : 'text-yellow-700'}
+                            >
+                              {finding.severity === 'error' ? '❌' : '⚠️'} Line {finding.line}: {finding.message}
+                            </li>
+                          ))}
+                        </ul>
+                      )}
                     </div>
                   </div>
                   
-                  <a
-                    href={`${apiUrl}${output.downloadUrl}`}
-                    download
-                    className="btn-primary text-sm"
-                  >
-                    Download
-                  </a>
+                  <div className="flex items-center space-x-2">
+                    <button
+                      onClick={() => openDocumentHistory(output.documentId)}
+                      title="Versions of this document across jobs"
+                      className="btn-secondary text-sm"
+                    >
+                      History
+                    </button>
+                    <button
+                      onClick={() => copySignedLink(output)}
+                      title={`Link valid until ${new Date(output.expiresAt).toLocaleString('en-US')}`}
+                      className="btn-secondary text-sm"
+                    >
+                      Copy link
+                    </button>
+                    <a
+                      href={`${apiUrl}${output.signedUrl}`}
+                      download
+                      className="btn-primary text-sm"
+                    >
+                      Download
+                    </a>
+                  </div>
                 </div>
               ))}
             </div>
@@ -376,6 +1754,109 @@ export default function HomePage() {
         </div>
       </div>
 
+      {/* Document History Section */}
+      {documentHistory && (
+        <div className="card">
+          <div className="flex items-center justify-between mb-4">
+            <div>
+              <h3 className="text-lg font-semibold text-gray-900">Document History</h3>
+              <p className="text-sm text-gray-500 truncate max-w-2xl" title={documentHistory.prompt}>
+                {documentHistory.prompt}
+              </p>
+            </div>
+            <button onClick={() => setDocumentHistory(null)} className="btn-secondary text-sm">
+              Close
+            </button>
+          </div>
+
+          {documentHistory.versions.length < 2 ? (
+            <div className="text-sm text-gray-500">
+              Only one version so far: regenerate the same prompt to compare versions.
+            </div>
+          ) : (
+            <>
+              <div className="flex flex-wrap items-center gap-3 mb-4 text-sm">
+                {(['from', 'to'] as const).map(end => (
+                  <label key={end} className="flex items-center space-x-2">
+                    <span className="font-medium text-gray-700">{end === 'from' ? 'From' : 'To'}</span>
+                    <select
+                      value={diffRange[end]}
+                      onChange={(e) => updateDiff({ ...diffRange, [end]: Number(e.target.value) }, diffView)}
+                      className="p-2 border border-gray-300 rounded-md"
+                    >
+                      {documentHistory.versions.map(version => (
+                        <option key={version.version} value={version.version}>
+                          v{version.version} · {new Date(version.createdAt).toLocaleString('en-US')} · {version.model}
+                        </option>
+                      ))}
+                    </select>
+                  </label>
+                ))}
+                <select
+                  value={diffView}
+                  onChange={(e) => updateDiff(diffRange, e.target.value as DiffView)}
+                  className="p-2 border border-gray-300 rounded-md"
+                >
+                  <option value="side-by-side">Side by side</option>
+                  <option value="words">Word diff</option>
+                </select>
+              </div>
+
+              {diff && diffView === 'side-by-side' && diff.hunks && (
+                <div className="overflow-x-auto border rounded-lg">
+                  <table className="w-full text-xs font-mono">
+                    <tbody>
+                      {diff.hunks.length === 0 && (
+                        <tr>
+                          <td className="p-3 text-gray-500">No differences</td>
+                        </tr>
+                      )}
+                      {sideBySideRows(diff.hunks).map((row, index) =>
+                        row.type === 'hunk' ? (
+                          <tr key={index} className="bg-blue-50 text-blue-700">
+                            <td colSpan={4} className="px-2 py-1">{row.label}</td>
+                          </tr>
+                        ) : (
+                          <tr key={index} className="align-top">
+                            <td className="w-10 px-2 text-right text-gray-400 select-none">{row.left?.line}</td>
+                            <td className={`w-1/2 px-2 whitespace-pre-wrap ${row.type === 'change' && row.left ? 'bg-red-50 text-red-800' : ''}`}>
+                              {row.left?.text}
+                            </td>
+                            <td className="w-10 px-2 text-right text-gray-400 select-none border-l">{row.right?.line}</td>
+                            <td className={`w-1/2 px-2 whitespace-pre-wrap ${row.type === 'change' && row.right ? 'bg-green-50 text-green-800' : ''}`}>
+                              {row.right?.text}
+                            </td>
+                          </tr>
+                        )
+                      )}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+
+              {diff && diffView === 'words' && diff.changes && (
+                <pre className="p-3 border rounded-lg text-xs whitespace-pre-wrap max-h-[32rem] overflow-y-auto">
+                  {diff.changes.map((change, index) => (
+                    <span
+                      key={index}
+                      className={
+                        change.added
+                          ? 'bg-green-100 text-green-800'
+                          : change.removed
+                            ? 'bg-red-100 text-red-800 line-through'
+                            : ''
+                      }
+                    >
+                      {change.value}
+                    </span>
+                  ))}
+                </pre>
+              )}
+            </>
+          )}
+        </div>
+      )}
+
       {/* Help Section */}
       <div className="card bg-blue-50 border-blue-200">
         <h3 className="text-lg font-semibold text-blue-900 mb-2">How it works?</h3>
@@ -3,11 +3,36 @@
 import { useEffect, useRef, useState } from 'react';
 
 interface WebSocketMessage {
-  type: 'connected' | 'job_update' | 'log' | 'job_completed' | 'job_failed';
+  type:
+    | 'connected'
+    | 'job_update'
+    | 'log'
+    | 'job_completed'
+    | 'job_failed'
+    | 'stream_chunk'
+    | 'stream_end';
   message?: string;
   timestamp?: string;
   job?: any;
   results?: any[];
+  jobId?: string;
+  index?: number;
+  prompt?: string;
+  delta?: string;
+  offset?: number;
+  success?: boolean;
+  truncated?: boolean;
+}
+
+export interface LiveStream {
+  jobId: string;
+  index: number;
+  prompt: string;
+  text: string;
+  done: boolean;
+  success?: boolean;
+  truncated?: boolean;
+  updatedAt: number;
 }
 
 interface UseWebSocketOptions {
@@ -15,15 +40,27 @@ interface UseWebSocketOptions {
   onConnect?: () => void;
   onDisconnect?: () => void;
   reconnectInterval?: number;
+  // Opt-in explicite : recevoir les événements de tous les jobs
+  subscribeAll?: boolean;
 }
 
 export function useWebSocket(url: string, options: UseWebSocketOptions = {}) {
   const [isConnected, setIsConnected] = useState(false);
   const [logs, setLogs] = useState<Array<{ message: string; timestamp: string }>>([]);
+  // Documents en cours de génération, indexés par position du prompt
+  const [streams, setStreams] = useState<Record<number, LiveStream>>({});
   const wsRef = useRef<WebSocket | null>(null);
   const reconnectTimeoutRef = useRef<NodeJS.Timeout | null>(null);
+  // Jobs suivis par cet onglet, ré-abonnés à chaque reconnexion
+  const subscriptionsRef = useRef<Set<string>>(new Set());
+
+  const { onMessage, onConnect, onDisconnect, reconnectInterval = 3000, subscribeAll = false } = options;
 
-  const { onMessage, onConnect, onDisconnect, reconnectInterval = 3000 } = options;
+  const send = (data: Record<string, unknown>) => {
+    if (wsRef.current?.readyState === WebSocket.OPEN) {
+      wsRef.current.send(JSON.stringify(data));
+    }
+  };
 
   const connect = () => {
     try {
@@ -35,6 +72,14 @@ export function useWebSocket(url: string, options: UseWebSocketOptions = {}) {
 
       wsRef.current.onopen = () => {
         setIsConnected(true);
+
+        if (subscribeAll) {
+          send({ type: 'subscribe', all: true });
+        }
+        subscriptionsRef.current.forEach(jobId => {
+          send({ type: 'subscribe', jobId });
+        });
+
         onConnect?.();
         console.log('✅ Connexion WebSocket établie');
       };
@@ -50,6 +95,37 @@ export function useWebSocket(url: string, options: UseWebSocketOptions = {}) {
             setLogs(prev => [...prev, { message, timestamp }]);
           }
 
+          // Texte généré en streaming : offset 0 = nouveau document (ou nouvelle tentative),
+          // un offset inférieur au texte reçu reprend à cette position (relance d'une requête)
+          if (data.type === 'stream_chunk' && typeof data.index === 'number' && typeof data.delta === 'string') {
+            const { index, delta, offset = 0 } = data;
+            const jobId = data.jobId ?? '';
+            setStreams(prev => {
+              const current = prev[index];
+              const restart = offset === 0 || !current || current.jobId !== jobId;
+              return {
+                ...prev,
+                [index]: {
+                  jobId,
+                  index,
+                  prompt: data.prompt ?? current?.prompt ?? '',
+                  text: restart ? delta : current.text.slice(0, offset) + delta,
+                  done: false,
+                  updatedAt: Date.now(),
+                },
+              };
+            });
+          }
+
+          if (data.type === 'stream_end' && typeof data.index === 'number') {
+            const index = data.index;
+            setStreams(prev =>
+              prev[index]
+                ? { ...prev, [index]: { ...prev[index], done: true, success: data.success, truncated: data.truncated } }
+                : prev
+            );
+          }
+
           onMessage?.(data);
         } catch (error) {
           console.error('Erreur parsing message WebSocket:', error);
@@ -88,8 +164,11 @@ export function useWebSocket(url: string, options: UseWebSocketOptions = {}) {
     }
 
     if (wsRef.current) {
+      // Pas de reconnexion automatique sur une fermeture volontaire
+      wsRef.current.onclose = null;
       wsRef.current.close();
       wsRef.current = null;
+      setIsConnected(false);
     }
   };
 
@@ -97,6 +176,20 @@ export function useWebSocket(url: string, options: UseWebSocketOptions = {}) {
     setLogs([]);
   };
 
+  const clearStreams = () => {
+    setStreams({});
+  };
+
+  const subscribe = (jobId: string) => {
+    subscriptionsRef.current.add(jobId);
+    send({ type: 'subscribe', jobId });
+  };
+
+  const unsubscribe = (jobId: string) => {
+    subscriptionsRef.current.delete(jobId);
+    send({ type: 'unsubscribe', jobId });
+  };
+
   useEffect(() => {
     connect();
 
@@ -109,6 +202,10 @@ export function useWebSocket(url: string, options: UseWebSocketOptions = {}) {
     isConnected,
     logs,
     clearLogs,
+    streams,
+    clearStreams,
+    subscribe,
+    unsubscribe,
     connect,
     disconnect,
   };
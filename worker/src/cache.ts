@@ -0,0 +1,82 @@
+import crypto from 'crypto';
+import fs from 'fs-extra';
+import path from 'path';
+import type { GenerationSettings } from './generation.js';
+import type { TokenUsage } from './usage.js';
+
+// use : lire et écrire ; bypass : ni l'un ni l'autre ; refresh : régénérer et remplacer
+export const CACHE_MODES = ['use', 'bypass', 'refresh'] as const;
+export type CacheMode = (typeof CACHE_MODES)[number];
+
+export interface CacheEntry {
+  key: string;
+  provider: string;
+  model: string;
+  response: string;
+  truncated: boolean;
+  // Réponse corrigée après les contrôles de qualité
+  repaired?: boolean;
+  // Usage de la génération d'origine, pour information
+  usage: TokenUsage;
+  createdAt: string;
+}
+
+// Mode de cache invalide fourni par l'utilisateur
+export class CacheError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CacheError';
+  }
+}
+
+export function parseCacheMode(value: unknown): CacheMode | undefined {
+  if (value === undefined) return undefined;
+  if (!CACHE_MODES.includes(value as CacheMode)) {
+    throw new CacheError(`cache must be one of: ${CACHE_MODES.join(', ')}`);
+  }
+  return value as CacheMode;
+}
+
+// Réponses indexées par le contenu de la requête : un fichier JSON par clé sha256
+export class ResponseCache {
+  private dir: string;
+
+  constructor(dir: string) {
+    this.dir = dir;
+  }
+
+  static fromEnv(): ResponseCache {
+    return new ResponseCache(process.env.CLAUDE_CACHE_DIR || 'data/cache');
+  }
+
+  // Prompt final (extraits de code compris), provider et tous les paramètres qui influencent la réponse
+  key(prompt: string, provider: string, settings: GenerationSettings): string {
+    const { model, maxTokens, temperature, stopSequences, systemPrompt, longForm, maxContinuations, repair } = settings;
+    const request = { prompt, provider, model, maxTokens, temperature, stopSequences, systemPrompt, longForm, maxContinuations, repair };
+    return crypto.createHash('sha256').update(JSON.stringify(request)).digest('hex');
+  }
+
+  async get(key: string): Promise<CacheEntry | undefined> {
+    const file = this.file(key);
+    if (!(await fs.pathExists(file))) return undefined;
+
+    try {
+      return await fs.readJson(file);
+    } catch (error) {
+      console.warn(`⚠️ Ignoring unreadable cache entry ${key}:`, error);
+      return undefined;
+    }
+  }
+
+  async set(entry: CacheEntry): Promise<void> {
+    const file = this.file(entry.key);
+    // Écriture atomique : deux jobs peuvent produire la même entrée en parallèle
+    const tmp = `${file}.${process.pid}.${crypto.randomUUID()}.tmp`;
+    await fs.outputFile(tmp, JSON.stringify(entry, null, 2), 'utf-8');
+    await fs.rename(tmp, file);
+  }
+
+  private file(key: string): string {
+    return path.join(this.dir, key.slice(0, 2), `${key}.json`);
+  }
+}
@@ -0,0 +1,163 @@
+import crypto from 'crypto';
+import fs from 'fs-extra';
+import path from 'path';
+import type { GenerationSettings } from './generation.js';
+import type { LLMProvider, ProviderMessage, ProviderName, ProviderRequest, ProviderResponse } from './providers.js';
+import { TokenUsage, emptyUsage } from './usage.js';
+
+// Une requête enregistrée et la réponse obtenue, découpée comme elle a été streamée
+export interface CassetteInteraction {
+  key: string;
+  request: {
+    model: string;
+    systemPrompt: string;
+    maxTokens: number;
+    temperature: number;
+    stopSequences: string[];
+    messages: ProviderMessage[];
+  };
+  response: ProviderResponse;
+  chunks: string[];
+  recordedAt: string;
+}
+
+export interface Cassette {
+  provider: ProviderName;
+  label: string;
+  interactions: CassetteInteraction[];
+}
+
+// Cassette absente, invalide ou sans réponse pour la requête rejouée
+export class CassetteError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CassetteError';
+  }
+}
+
+// Écritures sérialisées par fichier : plusieurs workers peuvent enregistrer dans la même cassette
+const writes = new Map<string, Promise<void>>();
+
+// Clé d'une requête : tout ce qui influence la réponse, sauf le provider
+export function cassetteKey(settings: GenerationSettings, messages: ProviderMessage[]): string {
+  const request = cassetteRequest(settings, messages);
+  return crypto.createHash('sha256').update(JSON.stringify(request)).digest('hex');
+}
+
+export function readCassette(file: string): Cassette {
+  if (!fs.pathExistsSync(file)) {
+    throw new CassetteError(`Cassette not found: ${file}`);
+  }
+
+  try {
+    const cassette = fs.readJsonSync(file);
+    if (!Array.isArray(cassette.interactions)) throw new Error('missing interactions');
+    return cassette;
+  } catch (error) {
+    throw new CassetteError(`Invalid cassette ${file}: ${error instanceof Error ? error.message : error}`);
+  }
+}
+
+// Enregistre les réponses d'un vrai provider ; une requête déjà présente est remplacée
+export class RecordingProvider implements LLMProvider {
+  readonly name: ProviderName;
+  readonly label: string;
+  private inner: LLMProvider;
+  private file: string;
+
+  constructor(inner: LLMProvider, file: string) {
+    this.inner = inner;
+    this.file = path.resolve(file);
+    this.name = inner.name;
+    this.label = inner.label;
+  }
+
+  init(model: string): Promise<TokenUsage> {
+    console.log(`📼 Recording responses to ${this.file}`);
+    return this.inner.init(model);
+  }
+
+  async generate(request: ProviderRequest): Promise<ProviderResponse> {
+    const chunks: string[] = [];
+    const response = await this.inner.generate({
+      ...request,
+      onText: delta => {
+        chunks.push(delta);
+        request.onText?.(delta);
+      },
+    });
+
+    await this.record({
+      key: cassetteKey(request.settings, request.messages),
+      request: cassetteRequest(request.settings, request.messages),
+      response,
+      chunks,
+      recordedAt: new Date().toISOString(),
+    });
+
+    return response;
+  }
+
+  private record(interaction: CassetteInteraction): Promise<void> {
+    const previous = writes.get(this.file) ?? Promise.resolve();
+    const write = previous.then(async () => {
+      const cassette: Cassette = (await fs.pathExists(this.file))
+        ? readCassette(this.file)
+        : { provider: this.name, label: this.label, interactions: [] };
+
+      cassette.interactions = [...cassette.interactions.filter(i => i.key !== interaction.key), interaction];
+
+      // Écriture atomique : fichier temporaire puis renommage
+      await fs.outputFile(`${this.file}.tmp`, JSON.stringify(cassette, null, 2), 'utf-8');
+      await fs.rename(`${this.file}.tmp`, this.file);
+    });
+
+    writes.set(this.file, write.catch(() => undefined));
+    return write;
+  }
+}
+
+// Rejoue une cassette : aucun accès réseau, aucun délai, même découpage du stream
+export class ReplayProvider implements LLMProvider {
+  readonly name: ProviderName;
+  readonly label: string;
+  readonly replay = true;
+  private interactions: Map<string, CassetteInteraction>;
+
+  constructor(file: string) {
+    const cassette = readCassette(file);
+    this.name = cassette.provider;
+    this.label = `${cassette.label} (replayed from ${path.basename(file)})`;
+    this.interactions = new Map(cassette.interactions.map(i => [i.key, i]));
+  }
+
+  async init(): Promise<TokenUsage> {
+    console.log(`📼 Replaying ${this.interactions.size} recorded responses`);
+    return emptyUsage();
+  }
+
+  async generate({ settings, messages, signal, onText }: ProviderRequest): Promise<ProviderResponse> {
+    signal?.throwIfAborted();
+
+    const interaction = this.interactions.get(cassetteKey(settings, messages));
+    if (!interaction) {
+      throw new CassetteError('No recorded response for this request (prompt or generation settings differ from the recording)');
+    }
+
+    for (const chunk of interaction.chunks) {
+      onText?.(chunk);
+    }
+    return interaction.response;
+  }
+}
+
+function cassetteRequest(settings: GenerationSettings, messages: ProviderMessage[]): CassetteInteraction['request'] {
+  return {
+    model: settings.model,
+    systemPrompt: settings.systemPrompt,
+    maxTokens: settings.maxTokens,
+    temperature: settings.temperature,
+    stopSequences: settings.stopSequences,
+    messages,
+  };
+}
@@ -0,0 +1,126 @@
+import { PROVIDER_NAMES, ProviderName, defaultModel, defaultProviderName } from './providers.js';
+
+export interface GenerationSettings {
+  // Backend de génération (défaut : LLM_PROVIDER, sinon anthropic si une clé est configurée, sinon demo)
+  provider: ProviderName;
+  model: string;
+  maxTokens: number;
+  temperature: number;
+  stopSequences: string[];
+  systemPrompt: string;
+  // Mode long : plan, puis une requête par section, assemblées dans un seul fichier
+  longForm: boolean;
+  // Relances automatiques d'une réponse arrêtée par max_tokens
+  maxContinuations: number;
+  // Relance avec les problèmes de qualité détectés pour corriger le document
+  repair: boolean;
+}
+
+// Paramètre de génération invalide fourni par l'utilisateur
+export class GenerationSettingsError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'GenerationSettingsError';
+  }
+}
+
+export const DEFAULT_SYSTEM_PROMPT = `You are a technical documentation expert. For the prompt you receive, generate complete, well-structured and professional documentation in Markdown format. Be precise, detailed and include practical examples when relevant.`;
+
+// CLAUDE_MAX_CONTINUATIONS : 0 désactive les relances, une valeur invalide garde le défaut
+function defaultMaxContinuations(): number {
+  const value = Number(process.env.CLAUDE_MAX_CONTINUATIONS || NaN);
+  return Number.isInteger(value) && value >= 0 ? value : 3;
+}
+
+export function defaultGenerationSettings(): GenerationSettings {
+  const provider = defaultProviderName();
+  return {
+    provider,
+    model: defaultModel(provider),
+    maxTokens: 4000,
+    temperature: 0.7,
+    stopSequences: [],
+    systemPrompt: DEFAULT_SYSTEM_PROMPT,
+    longForm: false,
+    maxContinuations: defaultMaxContinuations(),
+    repair: process.env.CLAUDE_QUALITY_REPAIR === 'true',
+  };
+}
+
+// Valide les paramètres fournis par l'utilisateur ; lève une erreur explicite sinon
+export function parseGenerationSettings(input: Record<string, unknown>): Partial<GenerationSettings> {
+  const settings: Partial<GenerationSettings> = {};
+  const { provider, model, maxTokens, temperature, stopSequences, systemPrompt, longForm, maxContinuations, repair } = input;
+
+  if (provider !== undefined) {
+    if (!PROVIDER_NAMES.includes(provider as ProviderName)) {
+      throw new GenerationSettingsError(`provider must be one of: ${PROVIDER_NAMES.join(', ')}`);
+    }
+    settings.provider = provider as ProviderName;
+    // Le modèle par défaut dépend du provider
+    settings.model = defaultModel(settings.provider);
+  }
+
+  if (model !== undefined) {
+    // `/` pour les modèles des serveurs compatibles OpenAI, ex. meta-llama/Llama-3-8B
+    if (typeof model !== 'string' || !/^[\w.:/-]+$/.test(model)) {
+      throw new GenerationSettingsError('model must be a model identifier');
+    }
+    settings.model = model;
+  }
+
+  if (maxTokens !== undefined) {
+    if (!Number.isInteger(maxTokens) || (maxTokens as number) < 1 || (maxTokens as number) > 64000) {
+      throw new GenerationSettingsError('maxTokens must be an integer between 1 and 64000');
+    }
+    settings.maxTokens = maxTokens as number;
+  }
+
+  if (temperature !== undefined) {
+    if (typeof temperature !== 'number' || temperature < 0 || temperature > 1) {
+      throw new GenerationSettingsError('temperature must be a number between 0 and 1');
+    }
+    settings.temperature = temperature;
+  }
+
+  if (stopSequences !== undefined) {
+    if (
+      !Array.isArray(stopSequences) ||
+      stopSequences.length > 16 ||
+      !stopSequences.every(s => typeof s === 'string' && s.length > 0)
+    ) {
+      throw new GenerationSettingsError('stopSequences must be an array of at most 16 non-empty strings');
+    }
+    settings.stopSequences = stopSequences;
+  }
+
+  if (systemPrompt !== undefined) {
+    if (typeof systemPrompt !== 'string' || !systemPrompt.trim() || systemPrompt.length > 20000) {
+      throw new GenerationSettingsError('systemPrompt must be a non-empty string of at most 20000 characters');
+    }
+    settings.systemPrompt = systemPrompt;
+  }
+
+  if (longForm !== undefined) {
+    if (typeof longForm !== 'boolean') {
+      throw new GenerationSettingsError('longForm must be a boolean');
+    }
+    settings.longForm = longForm;
+  }
+
+  if (maxContinuations !== undefined) {
+    if (!Number.isInteger(maxContinuations) || (maxContinuations as number) < 0 || (maxContinuations as number) > 10) {
+      throw new GenerationSettingsError('maxContinuations must be an integer between 0 and 10');
+    }
+    settings.maxContinuations = maxContinuations as number;
+  }
+
+  if (repair !== undefined) {
+    if (typeof repair !== 'boolean') {
+      throw new GenerationSettingsError('repair must be a boolean');
+    }
+    settings.repair = repair;
+  }
+
+  return settings;
+}
@@ -1,228 +1,590 @@
-import Anthropic from '@anthropic-ai/sdk';
 import fs from 'fs-extra';
 import path from 'path';
-import slugify from 'slugify';
-
-interface JobConfig {
+import { parseArgs } from 'util';
+import { RateLimiter } from './rateLimiter.js';
+import { ErrorClass, RetryError, RetryInfo, RetryPolicy, defaultRetryPolicy, withRetry } from './retry.js';
+
+import { GenerationSettings, defaultGenerationSettings, parseGenerationSettings } from './generation.js';
+import { LLMProvider, ProviderMessage, ProviderName, ProviderOptions, createProvider } from './providers.js';
+import { TemplateRow, TemplateSource, detectDatasetFormat, expandTemplateSource } from './templates.js';
+import { assignFilenames, filenamePatternFor, validateFilenamePattern } from './naming.js';
+import { buildManifest, writeManifest } from './manifest.js';
+import { outlinePrompt, parseOutline, sectionPrompt } from './longform.js';
+import { SourceChunk, SourceFile, loadSources, selectSources, sourcePaths, withSources } from './sources.js';
+import { CacheMode, ResponseCache, parseCacheMode } from './cache.js';
+import { TokenUsage, emptyUsage, estimateCost, loadPriceTable, summarizeUsage } from './usage.js';
+import { QualityFinding, checkMarkdown, formatFinding, repairPrompt, unwrapMarkdown } from './quality.js';
+
+export { RateLimiter } from './rateLimiter.js';
+export type { RateLimitConfig } from './rateLimiter.js';
+export type { ErrorClass, RetryInfo, RetryPolicy } from './retry.js';
+export { defaultGenerationSettings, parseGenerationSettings, GenerationSettingsError } from './generation.js';
+export type { GenerationSettings } from './generation.js';
+export {
+  AnthropicProvider,
+  DemoProvider,
+  OpenAICompatibleProvider,
+  PROVIDER_NAMES,
+  ProviderHttpError,
+  createProvider,
+  defaultProviderName,
+} from './providers.js';
+export { CACHE_MODES, CacheError, ResponseCache, parseCacheMode } from './cache.js';
+export type { CacheEntry, CacheMode } from './cache.js';
+export { CassetteError, RecordingProvider, ReplayProvider, readCassette } from './cassettes.js';
+export type { Cassette, CassetteInteraction } from './cassettes.js';
+export type {
+  LLMProvider,
+  ProviderMessage,
+  ProviderName,
+  ProviderOptions,
+  ProviderRequest,
+  ProviderResponse,
+} from './providers.js';
+export { expandTemplateSource, TemplateError } from './templates.js';
+export type { DatasetFormat, ExpandedPrompt, TemplateRow, TemplateSource } from './templates.js';
+export { FILENAME_VARIABLES, assignFilenames, filenamePatternFor, validateFilenamePattern } from './naming.js';
+export { MANIFEST_FILENAME, buildManifest, readManifest } from './manifest.js';
+export type { Manifest, ManifestEntry, ManifestStatus } from './manifest.js';
+export {
+  SourceError,
+  detectSourceArchiveFormat,
+  loadSources,
+  parseSourceFiles,
+  readSourceArchive,
+  selectSources,
+} from './sources.js';
+export type { SourceArchiveFormat, SourceChunk, SourceFile } from './sources.js';
+export { DEFAULT_PRICES, addUsage, emptyUsage, estimateCost, loadPriceTable, summarizeUsage } from './usage.js';
+export type { ModelPrice, PriceTable, TokenUsage, UsageSummary } from './usage.js';
+export { checkMarkdown, formatFinding } from './quality.js';
+export type { QualityFinding, QualityOptions, QualityRule } from './quality.js';
+
+export interface JobConfig {
   prompts: string[];
   outputDir: string;
+  // Variables de template de chaque prompt (même ordre que prompts)
+  variables?: TemplateRow[];
+  // Pattern des noms de fichiers : {{index}}, {{slug}}, {{hash}} et variables de template,
+  // ex. "{{index}}-{{service}}" (défaut : CLAUDE_FILENAME_PATTERN ou "{{slug}}")
+  filenameTemplate?: string;
+  // Modèle et paramètres de génération (défauts : defaultGenerationSettings)
+  generation?: Partial<GenerationSettings>;
+  // Code source du projet : les extraits pertinents sont joints à chaque prompt
+  sources?: SourceFile[];
+  // Globs limitant les fichiers candidats, ex. ["src/api/**/*.ts"]
+  sourceInclude?: string[];
+  // Budget de tokens alloué aux extraits (défaut : CLAUDE_SOURCE_TOKENS ou 50000)
+  sourceTokens?: number;
+  // Cache des réponses (défaut : CLAUDE_CACHE_DIR) et son utilisation pour ce job (défaut : use)
+  cache?: ResponseCache;
+  cacheMode?: CacheMode;
+  // Résultats déjà obtenus (indexés par prompt) lors d'une exécution précédente
+  previousResults?: JobResult[];
+  // Annulation : interrompt immédiatement la requête en cours
+  signal?: AbortSignal;
+  // Pause : arrêt propre avant le prompt suivant
+  shouldStop?: () => boolean;
+  // Nombre de prompts traités en parallèle (défaut : CLAUDE_CONCURRENCY ou 3)
+  concurrency?: number;
+  // Limiteur partagé entre plusieurs jobs (défaut : CLAUDE_RPM / CLAUDE_TPM)
+  rateLimiter?: RateLimiter;
+  // Politique de retry pour les erreurs transitoires (défaut : CLAUDE_MAX_RETRIES)
+  retryPolicy?: Partial<RetryPolicy>;
   onProgress?: (current: number, total: number, status: string) => void;
+  onResult?: (index: number, result: JobResult) => void;
+  onRetry?: (index: number, info: RetryInfo) => void;
+  // Texte généré au fil de l'eau ; offset 0 signale le début (ou une nouvelle tentative)
+  onChunk?: (index: number, delta: string, offset: number) => void;
   onComplete?: (results: JobResult[]) => void;
 }
 
-interface JobResult {
+export interface JobResult {
   prompt: string;
   response: string;
   filename: string;
   success: boolean;
   error?: string;
+  // Nombre de tentatives effectuées et classe de la dernière erreur
+  attempts?: number;
+  errorClass?: ErrorClass;
+  // Réponse encore arrêtée par max_tokens après toutes les relances
+  truncated?: boolean;
+  // Fichiers source joints au prompt
+  sources?: string[];
+  // Tokens consommés par toutes les requêtes du prompt (relances et sections comprises)
+  usage?: TokenUsage;
+  // Coût estimé en dollars ; null si le modèle n'a pas de prix connu
+  cost?: number | null;
+  // Réponse reprise du cache, sans appel au provider
+  cached?: boolean;
+  // Problèmes de qualité restants dans la réponse (blocs de code, titres, textes à compléter, liens)
+  findings?: QualityFinding[];
+  // Réponse corrigée par une relance avec les problèmes détectés
+  repaired?: boolean;
+}
+
+// Contexte d'exécution d'un prompt au sein d'un job
+interface PromptContext {
+  current: number;
+  total: number;
+  settings: GenerationSettings;
+  filename: string;
+  // Tous les fichiers du job : cibles valides des liens relatifs
+  knownFiles: string[];
+  sources: SourceChunk[];
+  // Cumul des tokens du prompt, mis à jour après chaque requête
+  usage: TokenUsage;
+  cache: ResponseCache;
+  cacheMode: CacheMode;
+  signal?: AbortSignal;
+  limiter: RateLimiter;
+  retryPolicy: RetryPolicy;
+  onRetry?: (info: RetryInfo) => void;
+  onStatus?: (status: string) => void;
+  onText?: (delta: string, offset: number) => void;
+}
+
+// Texte produit par une ou plusieurs requêtes (relances, sections)
+interface Completion {
+  text: string;
+  model: string;
+  truncated: boolean;
+  // Tentatives de la requête qui en a demandé le plus
+  attempts: number;
 }
 
 export class ClaudeWorker {
-  private client: Anthropic | null = null;
-  private apiKey: string;
-  private isDemoMode: boolean;
+  private provider: LLMProvider;
 
-  constructor() {
-    this.apiKey = process.env.CLAUDE_API_KEY || process.env.CLAUDE_COOKIE || '';
-    this.isDemoMode = !this.apiKey || this.apiKey === 'demo_mode';
-    
-    if (this.isDemoMode) {
+  // Provider par nom (défaut : LLM_PROVIDER ou selon la clé API) ou instance déjà configurée
+  constructor(provider?: ProviderName | LLMProvider, options: ProviderOptions = {}) {
+    this.provider = typeof provider === 'object' ? provider : createProvider(provider, options);
+
+    if (this.provider.name === 'demo') {
       console.log('🎭 DEMO mode enabled (no Claude API key provided)');
     } else {
-      console.log('🔑 Claude API mode enabled');
+      console.log(`🔑 ${this.provider.label} mode enabled`);
     }
   }
 
-  async init(): Promise<void> {
+  // Renvoie les tokens consommés par le test de connexion
+  async init(model: string = defaultGenerationSettings().model): Promise<TokenUsage> {
     console.log('🚀 Initializing Claude worker...');
     
-    if (this.isDemoMode) {
+    if (this.provider.name === 'demo') {
       console.log('🎭 DEMO mode: simulating responses');
-      return;
     }
 
     try {
-      this.client = new Anthropic({
-        apiKey: this.apiKey,
-      });
-      
-      // Test rapide de la clé API
-      console.log('🧪 Testing Claude API connection...');
-      await this.client.messages.create({
-        model: 'claude-3-5-sonnet-20241022',
-        max_tokens: 10,
-        messages: [{ role: 'user', content: 'Test' }],
+      console.log(`🧪 Testing ${this.provider.label} connection...`);
+      const { value: usage } = await withRetry(() => this.provider.init(model), {
+        policy: defaultRetryPolicy(),
+        onRetry: info => console.warn(`🔁 Connection test: ${info.errorClass}, retry in ${info.delayMs}ms`),
       });
       
       console.log('✅ Claude worker initialized successfully');
+      return usage;
     } catch (error) {
-      console.error('❌ Claude API initialization error:', error);
-      throw new Error('Unable to connect to Claude API. Check your API key.');
+      console.error(`❌ ${this.provider.label} initialization error:`, error);
+      throw new Error(`Unable to connect to ${this.provider.label}. Check your API key and settings.`);
     }
   }
 
   async runJob(config: JobConfig): Promise<JobResult[]> {
-    const results: JobResult[] = [];
-    const { prompts, outputDir, onProgress } = config;
+    // Résultats indexés par prompt : des trous restent si le job est arrêté
+    const results: JobResult[] = new Array(config.prompts.length);
+    const { prompts, outputDir, previousResults, signal, shouldStop, onProgress, onResult, onRetry, onChunk } = config;
+    const retryPolicy = { ...defaultRetryPolicy(), ...config.retryPolicy };
+    const settings = { ...defaultGenerationSettings(), ...config.generation };
+    const limiter = config.rateLimiter ?? RateLimiter.fromEnv();
+    const prices = loadPriceTable();
+    const cache = config.cache ?? ResponseCache.fromEnv();
+    const cacheMode = config.cacheMode ?? 'use';
+    const concurrency = Math.max(1, config.concurrency ?? (Number(process.env.CLAUDE_CONCURRENCY) || 3));
+    const total = prompts.length;
+
+    // Noms attribués d'avance pour tout le job : uniques et identiques à la reprise
+    const filenames = assignFilenames(
+      prompts,
+      config.filenameTemplate ?? filenamePatternFor(this.provider.name),
+      config.variables
+    );
 
     // Assurer que le dossier de sortie existe
     await fs.ensureDir(outputDir);
 
-    console.log(`📂 Processing ${prompts.length} prompts...`);
-
-    for (let i = 0; i < prompts.length; i++) {
-      const prompt = prompts[i];
-      onProgress?.(i + 1, prompts.length, `Processing prompt ${i + 1}/${prompts.length}`);
-
-      try {
-        const result = this.isDemoMode 
-          ? await this.processDemoPrompt(prompt, outputDir, i + 1, prompts.length)
-          : await this.processPrompt(prompt, outputDir);
-        
-        results.push(result);
-        console.log(`✅ Prompt ${i + 1}/${prompts.length} processed successfully`);
-      } catch (error) {
-        const errorResult: JobResult = {
-          prompt,
-          response: '',
-          filename: '',
-          success: false,
-          error: error instanceof Error ? error.message : 'Unknown error',
-        };
-        results.push(errorResult);
-        console.error(`❌ Error processing prompt ${i + 1}:`, error);
-      }
+    // Manifeste réécrit après chaque prompt, écritures sérialisées
+    let manifestWrite = Promise.resolve();
+    const updateManifest = () => {
+      const manifest = buildManifest(prompts, results, filenames);
+      manifestWrite = manifestWrite
+        .then(() => writeManifest(outputDir, manifest))
+        .catch(error => console.error('❌ Error writing manifest:', error));
+      return manifestWrite;
+    };
 
-      // Pause entre les requêtes pour éviter le rate limiting
-      if (i < prompts.length - 1) {
-        await this.delay(1000);
+    console.log(`📂 Processing ${total} prompts with ${settings.model} via ${this.provider.label} (concurrency: ${concurrency})...`);
+
+    let next = 0;
+    let completed = 0;
+    let stopped = false;
+
+    const processNext = async (): Promise<void> => {
+      while (!stopped && next < total) {
+        const i = next++;
+        const prompt = prompts[i];
+
+        // Reprise : ne pas retraiter un prompt déjà terminé
+        const previous = previousResults?.[i];
+        if (previous) {
+          results[i] = previous;
+          completed++;
+          continue;
+        }
+
+        if (signal?.aborted || shouldStop?.()) {
+          console.log(`⏹️ Job stopped before prompt ${i + 1}/${total}`);
+          stopped = true;
+          break;
+        }
+
+        onProgress?.(completed, total, `Processing prompt ${i + 1}/${total}`);
+
+        // Compté même si le prompt échoue : les requêtes abouties ont été facturées
+        const usage = emptyUsage();
+        // Le mode démo et le rejeu n'appellent aucune API : usage simulé ou enregistré, rien de facturé
+        const billed = this.provider.name !== 'demo' && !this.provider.replay;
+        const withUsage = (result: JobResult): JobResult =>
+          usage.requests > 0
+            ? { ...result, usage, cost: billed ? estimateCost(settings.model, usage, prices) : 0 }
+            : result;
+
+        try {
+          const context: PromptContext = {
+            current: i + 1,
+            total,
+            settings,
+            filename: filenames[i],
+            knownFiles: filenames,
+            sources: config.sources
+              ? selectSources(prompt, config.sources, { include: config.sourceInclude, maxTokens: config.sourceTokens })
+              : [],
+            usage,
+            cache,
+            cacheMode,
+            signal,
+            limiter,
+            retryPolicy,
+            onRetry: info => {
+              console.warn(`🔁 Prompt ${i + 1}/${total}: ${info.errorClass}, retry in ${info.delayMs}ms`);
+              onRetry?.(i, info);
+            },
+            onStatus: status => onProgress?.(completed, total, `Prompt ${i + 1}/${total}: ${status}`),
+            onText: onChunk && ((delta, offset) => onChunk(i, delta, offset)),
+          };
+
+          const result = withUsage(await this.processPrompt(prompt, outputDir, context));
+
+          results[i] = result;
+          completed++;
+          updateManifest();
+          onResult?.(i, result);
+          onProgress?.(completed, total, `Prompt ${i + 1}/${total} done`);
+          if (result.cached) {
+            console.log(`💾 Prompt ${i + 1}/${total} served from cache`);
+          }
+          if (result.truncated) {
+            console.warn(`⚠️ Prompt ${i + 1}/${total} still truncated after ${settings.maxContinuations} continuations`);
+          }
+          if (result.findings?.length) {
+            console.warn(`🔎 Prompt ${i + 1}/${total}: ${result.findings.length} quality issues\n   ${result.findings.map(formatFinding).join('\n   ')}`);
+          }
+          console.log(`✅ Prompt ${i + 1}/${total} processed successfully`);
+        } catch (error) {
+          // Prompt annulé en cours de route : il reste non traité
+          if (signal?.aborted) {
+            console.log(`⏹️ Prompt ${i + 1}/${total} cancelled`);
+            stopped = true;
+            break;
+          }
+
+          const errorResult: JobResult = withUsage({
+            prompt,
+            response: '',
+            filename: '',
+            success: false,
+            error: error instanceof Error ? error.message : 'Unknown error',
+            attempts: error instanceof RetryError ? error.attempts : 1,
+            errorClass: error instanceof RetryError ? error.errorClass : 'unknown',
+          });
+          results[i] = errorResult;
+          completed++;
+          updateManifest();
+          onResult?.(i, errorResult);
+          onProgress?.(completed, total, `Prompt ${i + 1}/${total} failed`);
+          console.error(`❌ Error processing prompt ${i + 1}:`, error);
+        }
       }
-    }
+    };
+
+    await Promise.all(
+      Array.from({ length: Math.min(concurrency, total) }, () => processNext())
+    );
+    await updateManifest();
 
     config.onComplete?.(results);
     return results;
   }
 
-  private async processDemoPrompt(prompt: string, outputDir: string, current: number, total: number): Promise<JobResult> {
-    // Simulation d'une vraie requête API avec délais réalistes
-    await this.delay(800); // Simulation temps réseau
-    
-    // Simulation "Claude qui réfléchit et génère"
-    await this.delay(2500);
-    
-    // Génerer une réponse DEMO réaliste
-    const demoResponse = `# Generated Documentation (DEMO Mode)
-
-## Processed Prompt
-${prompt}
-
-## Response simulated by Claude Doc Bot
-
-This is a demonstration response. In real mode, this documentation would be generated by Claude 3.5 Sonnet via Anthropic's official API.
-
-### Demonstrated Features:
-- ✅ Complete user interface
-- ✅ Real-time progress via WebSocket
-- ✅ Live log streaming
-- ✅ File generation and saving
-- ✅ Instant downloads
-
-### Technical Architecture:
-- **Claude API**: Replaced Playwright with official API
-- **Faster**: ~3 seconds per prompt vs 30+ with Playwright  
-- **More reliable**: No dependency on web interface
-- **More scalable**: API rate limits handled automatically
-
-### To enable real mode:
-1. Add your Claude API key in .env:
-   \`\`\`
-   CLAUDE_API_KEY=sk-ant-api03-your-key-here
-   \`\`\`
-2. Restart the application
-3. Enjoy ultra-fast automation! ⚡
-
----
-*Generated on ${new Date().toLocaleString('en-US')} - Prompt ${current}/${total}*
-*In real mode, this content would be produced by Claude 3.5 Sonnet*`;
-
-    // Générer le nom de fichier en anglais
-    const slug = slugify(`demo-${current}-${prompt.substring(0, 30)}`, { lower: true, strict: true });
-    const filename = `${slug}.md`;
-    const filepath = path.join(outputDir, filename);
-
-    // Sauvegarder le fichier demo
-    await fs.writeFile(filepath, demoResponse, 'utf-8');
-
-    return {
-      prompt,
-      response: demoResponse,
-      filename,
-      success: true,
-    };
+  // Estimation grossière (≈ 4 caractères par token) avant de connaître l'usage réel
+  private estimateTokens(messages: ProviderMessage[], settings: GenerationSettings): number {
+    const length = messages.reduce((sum, m) => sum + m.content.length, 0);
+    return Math.ceil((length + settings.systemPrompt.length) / 4) + settings.maxTokens;
   }
 
-  private async processPrompt(prompt: string, outputDir: string): Promise<JobResult> {
-    if (!this.client) throw new Error('Claude client not initialized');
+  private async processPrompt(prompt: string, outputDir: string, context: PromptContext): Promise<JobResult> {
+    const { settings, filename, knownFiles, sources, cache, cacheMode } = context;
 
     try {
-      console.log('🤖 Sending prompt to Claude via API...');
-      
-      const message = await this.client.messages.create({
-        model: 'claude-3-5-sonnet-20241022',
-        max_tokens: 4000,
-        temperature: 0.7,
-        messages: [
-          {
-            role: 'user',
-            content: `You are a technical documentation expert. Here is the prompt to process:
+      const grounded = withSources(prompt, sources);
+      const key = cache.key(grounded, this.provider.name, settings);
 
-${prompt}
+      // Réponse identique déjà générée : aucun appel au provider
+      const cached = cacheMode === 'use' ? await cache.get(key) : undefined;
+      if (cached) {
+        context.onText?.(cached.response, 0);
+        await this.writeOutput(outputDir, filename, prompt, cached.response, cached.model, new Date(cached.createdAt), true);
 
-Generate complete, well-structured and professional documentation in Markdown format. Be precise, detailed and include practical examples when relevant.`
-          }
-        ],
-      });
-
-      const response = message.content[0].type === 'text' ? message.content[0].text : '';
+        return {
+          prompt,
+          response: cached.response,
+          filename,
+          success: true,
+          truncated: cached.truncated,
+          sources: sourcePaths(sources),
+          cached: true,
+          findings: checkMarkdown(cached.response, { knownFiles }),
+          repaired: cached.repaired,
+        };
+      }
 
-      if (!response.trim()) {
-        throw new Error('No response received from Claude API');
+      console.log(`🤖 Streaming prompt to ${settings.model} via ${this.provider.label}${settings.longForm ? ' (long-form)' : ''}...`);
+      if (sources.length > 0) {
+        console.log(`📎 Grounding with ${sources.length} source excerpts from ${sourcePaths(sources).length} files`);
       }
 
-      // Générer le nom de fichier à partir du prompt
-      const slug = slugify(prompt.substring(0, 50), { lower: true, strict: true });
-      const filename = `${slug}.md`;
-      const filepath = path.join(outputDir, filename);
+      let completion = settings.longForm
+        ? await this.generateLongForm(grounded, context)
+        : await this.complete(grounded, context);
 
-      // Sauvegarder la réponse avec un en-tête
-      const content = `# Prompt
-${prompt}
+      let response = completion.text.trim();
 
-# Documentation generated by Claude
+      if (!response) {
+        throw new Error(`No response received from ${this.provider.label}`);
+      }
 
-${response}
+      let findings = checkMarkdown(response, { knownFiles });
+      let repaired = false;
 
----
-*Generated on ${new Date().toLocaleString('en-US')} by Claude 3.5 Sonnet via API*`;
+      if (findings.length > 0 && settings.repair) {
+        const repair = await this.repair(prompt, response, findings, context);
+        if (repair) {
+          completion = { ...repair.completion, attempts: Math.max(completion.attempts, repair.completion.attempts) };
+          ({ response, findings } = repair);
+          repaired = true;
+        }
+      }
 
-      await fs.writeFile(filepath, content, 'utf-8');
+      await this.writeOutput(outputDir, filename, prompt, response, completion.model, new Date(), false);
+
+      if (cacheMode !== 'bypass') {
+        await cache
+          .set({
+            key,
+            provider: this.provider.name,
+            model: completion.model,
+            response,
+            truncated: completion.truncated,
+            repaired,
+            usage: { ...context.usage },
+            createdAt: new Date().toISOString(),
+          })
+          .catch(error => console.warn('⚠️ Error writing response cache:', error));
+      }
 
       return {
         prompt,
         response,
         filename,
         success: true,
+        attempts: completion.attempts,
+        truncated: completion.truncated,
+        sources: sourcePaths(sources),
+        findings,
+        repaired,
       };
 
     } catch (error) {
-      console.error('Claude API error:', error);
+      console.error(`${this.provider.label} error:`, error);
       throw error;
     }
   }
 
-  private delay(ms: number): Promise<void> {
-    return new Promise(resolve => setTimeout(resolve, ms));
+  // Sauvegarder la réponse avec un en-tête
+  private async writeOutput(
+    outputDir: string,
+    filename: string,
+    prompt: string,
+    response: string,
+    model: string,
+    generatedAt: Date,
+    cached: boolean
+  ): Promise<void> {
+    const content = `# Prompt
+${prompt}
+
+# Documentation generated by Claude
+
+${response}
+
+---
+*Generated on ${generatedAt.toLocaleString('en-US')} by ${model} via ${this.provider.label}${cached ? ' (from cache)' : ''}*`;
+
+    await fs.writeFile(path.join(outputDir, filename), content, 'utf-8');
+  }
+
+  // Relance avec les problèmes détectés ; la correction n'est gardée que si elle en laisse moins
+  private async repair(
+    prompt: string,
+    draft: string,
+    findings: QualityFinding[],
+    context: PromptContext
+  ): Promise<{ completion: Completion; response: string; findings: QualityFinding[] } | undefined> {
+    console.log(`🩹 Re-prompting to repair ${findings.length} quality issues...`);
+    context.onStatus?.(`repairing ${findings.length} quality issues`);
+
+    const completion = await this.complete(repairPrompt(prompt, draft, findings, context.knownFiles), context);
+    const response = unwrapMarkdown(completion.text);
+    const remaining = checkMarkdown(response, { knownFiles: context.knownFiles });
+
+    if (!response || remaining.length >= findings.length) {
+      console.warn(`⚠️ Repair left ${remaining.length} quality issues, keeping the original response`);
+      // Le flux affiché repart de la réponse conservée
+      context.onText?.(draft, 0);
+      return undefined;
+    }
+
+    return { completion, response, findings: remaining };
+  }
+
+  // Mode long : un plan, puis chaque section avec le plan en contexte, assemblées dans l'ordre
+  private async generateLongForm(prompt: string, context: PromptContext): Promise<Completion> {
+    context.onStatus?.('generating outline');
+    const outline = await this.complete(outlinePrompt(prompt), { ...context, onText: undefined });
+    const { title, sections } = parseOutline(outline.text);
+
+    // Plan inexploitable : génération classique
+    if (sections.length === 0) {
+      console.warn('⚠️ No sections found in outline, falling back to a single response');
+      return this.complete(prompt, context);
+    }
+
+    console.log(`🗂️ Outline: ${sections.length} sections`);
+
+    let text = '';
+    let truncated = false;
+    let attempts = outline.attempts;
+
+    // Tout ajout au document est aussi streamé, pour que l'aperçu reste identique au fichier
+    const append = (part: string) => {
+      context.onText?.(part, text.length);
+      text += part;
+    };
+
+    if (title) {
+      append(`# ${title}\n\n`);
+    }
+
+    for (const [n, section] of sections.entries()) {
+      context.onStatus?.(`section ${n + 1}/${sections.length}: ${section.title}`);
+      if (n > 0) append('\n\n');
+
+      const part = await this.complete(sectionPrompt(prompt, outline.text, section), context, text.length);
+      text += part.text;
+      truncated ||= part.truncated;
+      attempts = Math.max(attempts, part.attempts);
+    }
+
+    return { text, model: outline.model, truncated, attempts };
+  }
+
+  // Réponse complète : la génération est relancée tant qu'elle s'arrête sur max_tokens
+  private async complete(prompt: string, context: PromptContext, offset = 0): Promise<Completion> {
+    const { settings } = context;
+    let text = '';
+    let attempts = 1;
+    let model = settings.model;
+
+    for (let continuation = 0; ; continuation++) {
+      const messages: ProviderMessage[] = [{ role: 'user', content: prompt }];
+      if (text) {
+        // Réponse préremplie avec le texte déjà généré ; l'API refuse un espace final
+        text = text.trimEnd();
+        messages.push({ role: 'assistant', content: text });
+      }
+
+      const reply = await this.request(messages, context, offset + text.length);
+      text += reply.text;
+      model = reply.model;
+      attempts = Math.max(attempts, reply.attempts);
+
+      if (reply.stopReason !== 'max_tokens') {
+        return { text, model, truncated: false, attempts };
+      }
+      if (continuation >= settings.maxContinuations) {
+        return { text, model, truncated: true, attempts };
+      }
+
+      console.log(`✂️ Response hit max_tokens, continuing (${continuation + 1}/${settings.maxContinuations})...`);
+      context.onStatus?.(`continuing truncated response (${continuation + 1}/${settings.maxContinuations})`);
+    }
+  }
+
+  // Une requête streamée, avec limites de débit et retries ; le texte est émis à partir de `offset`
+  private async request(messages: ProviderMessage[], context: PromptContext, offset: number) {
+    const { settings, usage, signal, limiter, retryPolicy, onRetry, onText } = context;
+
+    const { value, attempts } = await withRetry(
+      async () => {
+        // Respecter les limites requêtes/tokens par minute avant chaque envoi (sauf rejeu hors ligne)
+        const ticket = this.provider.replay
+          ? undefined
+          : await limiter.acquire(this.estimateTokens(messages, settings), signal);
+
+        // Chaque tentative repart de `offset`
+        let length = 0;
+        const reply = await this.provider.generate({
+          settings,
+          messages,
+          signal,
+          onText: delta => {
+            onText?.(delta, offset + length);
+            length += delta.length;
+          },
+        });
+
+        if (ticket) limiter.settle(ticket, reply.inputTokens + reply.outputTokens);
+        usage.inputTokens += reply.inputTokens;
+        usage.outputTokens += reply.outputTokens;
+        usage.requests++;
+
+        return reply;
+      },
+      { policy: retryPolicy, signal, onRetry }
+    );
+
+    return { ...value, attempts };
   }
 
   async cleanup(): Promise<void> {
@@ -231,28 +593,98 @@ ${response}
   }
 }
 
+// Template et jeu de données (CSV/JSON) lus depuis des fichiers
+export interface TemplateFiles {
+  templateFile: string;
+  datasetFile: string;
+  filenameTemplate?: string;
+}
+
+async function loadTemplateFiles(source: TemplateFiles): Promise<{ prompts: string[]; variables: TemplateRow[] }> {
+  const template: TemplateSource = {
+    template: await fs.readFile(source.templateFile, 'utf-8'),
+    dataset: await fs.readFile(source.datasetFile, 'utf-8'),
+    datasetFormat: detectDatasetFormat(source.datasetFile),
+  };
+
+  const expanded = expandTemplateSource(template);
+  return {
+    prompts: expanded.map(item => item.prompt),
+    variables: expanded.map(item => item.variables),
+  };
+}
+
+// Code source joint aux prompts : dossier, .zip ou .tar.gz, filtré par globs
+export interface SourceOptions {
+  sources?: string;
+  include?: string[];
+}
+
+// Provider et cache utilisés par runClaudeJob
+export interface RunOptions extends ProviderOptions {
+  cacheMode?: CacheMode;
+}
+
 // API pour l'utilisation en CLI ou via l'API
-export async function runClaudeJob(promptFiles: string[], outputDir: string = './outputs'): Promise<JobResult[]> {
-  const worker = new ClaudeWorker();
+export async function runClaudeJob(
+  source: string[] | TemplateFiles,
+  outputDir: string = './outputs',
+  generation: Partial<GenerationSettings> = {},
+  grounding: SourceOptions = {},
+  options: RunOptions = {}
+): Promise<JobResult[]> {
+  const settings = { ...defaultGenerationSettings(), ...generation };
+  const worker = new ClaudeWorker(settings.provider, options);
   
   try {
-    await worker.init();
-    
-    // Charger les prompts depuis les fichiers
-    const prompts: string[] = [];
-    for (const file of promptFiles) {
-      const content = await fs.readFile(file, 'utf-8');
-      prompts.push(content.trim());
+    // Charger les prompts depuis les fichiers, ou les générer depuis le template
+    let prompts: string[] = [];
+    let variables: TemplateRow[] | undefined;
+    let filenameTemplate: string | undefined;
+
+    if (Array.isArray(source)) {
+      for (const file of source) {
+        const content = await fs.readFile(file, 'utf-8');
+        prompts.push(content.trim());
+      }
+    } else {
+      ({ prompts, variables } = await loadTemplateFiles(source));
+      filenameTemplate = source.filenameTemplate;
     }
 
+    if (filenameTemplate !== undefined) {
+      validateFilenamePattern(filenameTemplate, variables);
+    }
+
+    const sources = grounding.sources ? await loadSources(grounding.sources) : undefined;
+    if (sources) {
+      console.log(`📎 ${sources.length} source files loaded from ${grounding.sources}`);
+    }
+
+    const initUsage = await worker.init(settings.model);
+
     const results = await worker.runJob({
       prompts,
       outputDir,
+      variables,
+      filenameTemplate,
+      generation: settings,
+      sources,
+      sourceInclude: grounding.include,
+      cacheMode: options.cacheMode,
       onProgress: (current, total, status) => {
         console.log(`[${current}/${total}] ${status}`);
       },
     });
 
+    const prices = loadPriceTable();
+    const summary = summarizeUsage([
+      { usage: initUsage, cost: estimateCost(settings.model, initUsage, prices) },
+      ...results,
+    ]);
+    const cost = summary.cost === null ? 'unknown (no price for this model)' : `$${summary.cost.toFixed(4)}`;
+    console.log(`💰 ${summary.inputTokens} input + ${summary.outputTokens} output tokens, estimated cost: ${cost}`);
+
     return results;
   } finally {
     await worker.cleanup();
@@ -260,25 +692,74 @@ export async function runClaudeJob(promptFiles: string[], outputDir: string = '.
 }
 
 // Point d'entrée CLI
+// Usage : worker [promptDir] [outputDir]
+//         worker --template prompt.txt --data services.csv [--filename "{{service}}"] [outputDir]
+// Options : --sources <dossier|.zip|.tar.gz> [--include "src/**/*.ts" ...]
+//           --provider anthropic|openai|demo [--model <modèle>] [--base-url http://localhost:8080/v1]
+//           --record <cassette.json> | --replay <cassette.json>
+//           --cache use|bypass|refresh
+//           --repair (relance pour corriger les problèmes de qualité détectés)
 if (import.meta.url === `file://${process.argv[1]}`) {
-  const promptDir = process.argv[2] || './prompts';
-  const outputDir = process.argv[3] || './outputs';
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      template: { type: 'string' },
+      data: { type: 'string' },
+      filename: { type: 'string' },
+      sources: { type: 'string' },
+      include: { type: 'string', multiple: true },
+      provider: { type: 'string' },
+      model: { type: 'string' },
+      'base-url': { type: 'string' },
+      record: { type: 'string' },
+      replay: { type: 'string' },
+      cache: { type: 'string' },
+      repair: { type: 'boolean' },
+    },
+  });
+
+  const grounding: SourceOptions = { sources: values.sources, include: values.include };
+  const options: RunOptions = { baseUrl: values['base-url'], record: values.record, replay: values.replay };
 
   (async () => {
     try {
-      // Lister tous les fichiers .txt dans le dossier prompts
-      const files = await fs.readdir(promptDir);
-      const promptFiles = files
-        .filter(f => f.endsWith('.txt'))
-        .map(f => path.join(promptDir, f));
-
-      if (promptFiles.length === 0) {
-        console.error('❌ Aucun fichier .txt trouvé dans', promptDir);
-        process.exit(1);
+      const generation = parseGenerationSettings({ provider: values.provider, model: values.model, repair: values.repair });
+      options.cacheMode = parseCacheMode(values.cache);
+      let results: JobResult[];
+
+      if (values.template || values.data) {
+        if (!values.template || !values.data) {
+          console.error('❌ --template et --data doivent être utilisés ensemble');
+          process.exit(1);
+        }
+
+        const outputDir = positionals[0] || './outputs';
+        console.log(`🧩 Template ${values.template} × jeu de données ${values.data}`);
+        results = await runClaudeJob(
+          { templateFile: values.template, datasetFile: values.data, filenameTemplate: values.filename },
+          outputDir,
+          generation,
+          grounding,
+          options
+        );
+      } else {
+        const promptDir = positionals[0] || './prompts';
+        const outputDir = positionals[1] || './outputs';
+
+        // Lister tous les fichiers .txt dans le dossier prompts
+        const files = await fs.readdir(promptDir);
+        const promptFiles = files
+          .filter(f => f.endsWith('.txt'))
+          .map(f => path.join(promptDir, f));
+
+        if (promptFiles.length === 0) {
+          console.error('❌ Aucun fichier .txt trouvé dans', promptDir);
+          process.exit(1);
+        }
+
+        console.log(`🎯 ${promptFiles.length} fichiers de prompts trouvés`);
+        results = await runClaudeJob(promptFiles, outputDir, generation, grounding, options);
       }
-
-      console.log(`🎯 ${promptFiles.length} fichiers de prompts trouvés`);
-      const results = await runClaudeJob(promptFiles, outputDir);
       
       const successful = results.filter(r => r.success).length;
       console.log(`✨ Job terminé: ${successful}/${results.length} prompts traités avec succès`);
@@ -291,4 +772,4 @@ if (import.meta.url === `file://${process.argv[1]}`) {
       process.exit(1);
     }
   })();
-} 
\ No newline at end of file
+}
@@ -0,0 +1,58 @@
+export interface OutlineSection {
+  title: string;
+  // Points à couvrir, tels que listés dans le plan
+  notes: string;
+}
+
+export interface Outline {
+  title?: string;
+  sections: OutlineSection[];
+}
+
+// Au-delà, le plan est tronqué pour garder un nombre d'appels raisonnable
+export const MAX_SECTIONS = 20;
+
+export function outlinePrompt(prompt: string): string {
+  return `Plan the documentation requested below. Do not write the documentation itself.
+
+Reply with the outline only, in Markdown:
+- first line: \`# Document title\`
+- then one \`## Section title\` line per top-level section, in reading order
+- under each section, a few \`- \` bullet points describing what it must cover
+
+Requested documentation:
+${prompt}`;
+}
+
+export function sectionPrompt(prompt: string, outline: string, section: OutlineSection): string {
+  return `You are writing one section of a longer document. The full outline is:
+
+${outline.trim()}
+
+Original request:
+${prompt}
+
+Write only the section "${section.title}". Start with the heading \`## ${section.title}\`, cover the points listed for it in the outline, and do not repeat content that belongs to other sections.`;
+}
+
+// Lit le plan produit par le modèle : `# Titre`, puis des sections `## …` et leurs notes
+export function parseOutline(text: string): Outline {
+  const outline: Outline = { sections: [] };
+  let current: OutlineSection | undefined;
+
+  for (const line of text.split('\n')) {
+    const heading = /^(#{1,2})\s+(.+?)\s*#*\s*$/.exec(line);
+
+    if (heading && heading[1] === '#' && !outline.title && outline.sections.length === 0) {
+      outline.title = heading[2];
+    } else if (heading && heading[1] === '##') {
+      current = { title: heading[2], notes: '' };
+      outline.sections.push(current);
+    } else if (current && line.trim()) {
+      current.notes += `${line}\n`;
+    }
+  }
+
+  outline.sections = outline.sections.slice(0, MAX_SECTIONS);
+  return outline;
+}
@@ -0,0 +1,67 @@
+import fs from 'fs-extra';
+import path from 'path';
+import type { JobResult } from './index.js';
+import type { QualityFinding } from './quality.js';
+
+export const MANIFEST_FILENAME = 'manifest.json';
+
+export type ManifestStatus = 'success' | 'error' | 'pending';
+
+export interface ManifestEntry {
+  index: number;
+  prompt: string;
+  filename: string | null;
+  status: ManifestStatus;
+  error?: string;
+  // Réponse coupée par max_tokens malgré les relances
+  truncated?: boolean;
+  // Fichiers source joints au prompt
+  sources?: string[];
+  // Problèmes détectés par les contrôles de qualité
+  findings?: QualityFinding[];
+  repaired?: boolean;
+}
+
+export interface Manifest {
+  updatedAt: string;
+  files: ManifestEntry[];
+}
+
+// Récapitulatif prompt → fichier → statut d'un dossier de sortie
+export function buildManifest(
+  prompts: string[],
+  results: (JobResult | undefined)[],
+  filenames: (string | undefined)[] = []
+): Manifest {
+  return {
+    updatedAt: new Date().toISOString(),
+    files: prompts.map((prompt, index) => {
+      const result = results[index];
+      return {
+        index,
+        prompt,
+        // Nom prévu tant que le prompt n'est pas traité, aucun fichier en cas d'échec
+        filename: (result ? result.filename : filenames[index]) || null,
+        status: result ? (result.success ? 'success' : 'error') : 'pending',
+        error: result?.error,
+        truncated: result?.truncated,
+        sources: result?.sources,
+        findings: result?.findings,
+        repaired: result?.repaired,
+      };
+    }),
+  };
+}
+
+export async function readManifest(outputDir: string): Promise<Manifest | undefined> {
+  const file = path.join(outputDir, MANIFEST_FILENAME);
+  if (!(await fs.pathExists(file))) return undefined;
+  return fs.readJson(file);
+}
+
+// Écriture atomique : le manifeste est réécrit après chaque prompt
+export async function writeManifest(outputDir: string, manifest: Manifest): Promise<void> {
+  const file = path.join(outputDir, MANIFEST_FILENAME);
+  await fs.outputFile(`${file}.tmp`, JSON.stringify(manifest, null, 2), 'utf-8');
+  await fs.rename(`${file}.tmp`, file);
+}
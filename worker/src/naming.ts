@@ -0,0 +1,82 @@
+import { createHash } from 'crypto';
+import slugify from 'slugify';
+import { TemplateError, TemplateRow, renderTemplate, templateVariables } from './templates.js';
+import type { ProviderName } from './providers.js';
+
+// Variables toujours disponibles dans un pattern de nom de fichier
+export const FILENAME_VARIABLES = ['index', 'slug', 'hash'];
+
+// Longueur maximale d'un nom rendu, avant suffixe de dédoublonnage et extension
+export const MAX_FILENAME_LENGTH = 100;
+
+export function defaultFilenamePattern(): string {
+  return process.env.CLAUDE_FILENAME_PATTERN || '{{slug}}';
+}
+
+// Pattern utilisé sans filenameTemplate : les fichiers du mode démo sont préfixés
+export function filenamePatternFor(provider: ProviderName): string {
+  return provider === 'demo' ? 'demo-{{index}}-{{slug}}' : defaultFilenamePattern();
+}
+
+// Vérifie que chaque variable du pattern est intégrée ou présente dans toutes les lignes
+export function validateFilenamePattern(pattern: string, rows: TemplateRow[] = []): void {
+  if (!pattern.trim()) {
+    throw new TemplateError('Filename pattern is empty');
+  }
+
+  for (const name of templateVariables(pattern)) {
+    if (FILENAME_VARIABLES.includes(name)) continue;
+
+    const missing = rows.length === 0 ? 0 : rows.findIndex(row => !Object.hasOwn(row, name));
+    if (missing !== -1) {
+      throw new TemplateError(
+        rows.length === 0
+          ? `Unknown filename variable "${name}" (available: ${FILENAME_VARIABLES.join(', ')})`
+          : `Row ${missing + 1}: Missing variable "${name}"`
+      );
+    }
+  }
+}
+
+// Nom trop long (valeurs de dataset, pattern personnalisé) : tronqué, l'empreinte
+// du nom complet garde distincts les noms qui partagent le même début
+function truncateFilename(name: string): string {
+  if (name.length <= MAX_FILENAME_LENGTH) return name;
+
+  const hash = createHash('sha256').update(name).digest('hex').slice(0, 8);
+  const head = name.slice(0, MAX_FILENAME_LENGTH - hash.length - 1).replace(/-+$/, '');
+  return `${head}-${hash}`;
+}
+
+// Noms de fichiers .md de tous les prompts d'un job, uniques et jamais vides
+export function assignFilenames(
+  prompts: string[],
+  pattern: string = defaultFilenamePattern(),
+  variables: (TemplateRow | undefined)[] = []
+): string[] {
+  const width = String(prompts.length).length;
+  const used = new Set<string>();
+
+  return prompts.map((prompt, i) => {
+    const index = String(i + 1).padStart(width, '0');
+    const row = {
+      index,
+      slug: slugify(prompt.substring(0, 50), { lower: true, strict: true }),
+      hash: createHash('sha256').update(prompt).digest('hex').slice(0, 8),
+      ...variables[i],
+    };
+
+    // Prompt sans caractère latin ou variables vides : retomber sur l'index
+    const base = truncateFilename(
+      slugify(renderTemplate(pattern, row), { lower: true, strict: true }) || `prompt-${index}`
+    );
+
+    let name = base;
+    for (let n = 2; used.has(name); n++) {
+      name = `${base}-${n}`;
+    }
+    used.add(name);
+
+    return `${name}.md`;
+  });
+}
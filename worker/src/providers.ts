@@ -0,0 +1,350 @@
+import Anthropic from '@anthropic-ai/sdk';
+import { delay } from './delay.js';
+import { RecordingProvider, ReplayProvider } from './cassettes.js';
+import type { GenerationSettings } from './generation.js';
+import { TokenUsage, emptyUsage } from './usage.js';
+
+export const PROVIDER_NAMES = ['anthropic', 'openai', 'demo'] as const;
+export type ProviderName = (typeof PROVIDER_NAMES)[number];
+
+export interface ProviderMessage {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+export interface ProviderRequest {
+  settings: GenerationSettings;
+  // Un dernier message assistant est une réponse préremplie à prolonger
+  messages: ProviderMessage[];
+  signal?: AbortSignal;
+  onText?: (delta: string) => void;
+}
+
+export interface ProviderResponse {
+  text: string;
+  // max_tokens : la réponse a été coupée et peut être relancée
+  stopReason: 'end_turn' | 'max_tokens' | 'stop_sequence' | null;
+  model: string;
+  inputTokens: number;
+  outputTokens: number;
+}
+
+// Backend de génération : un appel = une réponse streamée, sans retry (géré par le worker)
+export interface LLMProvider {
+  readonly name: ProviderName;
+  // Affiché dans le pied de page des fichiers générés
+  readonly label: string;
+  // Réponses rejouées d'une cassette : ni limite de débit ni facturation
+  readonly replay?: boolean;
+  // Vérifie la connexion ; renvoie les tokens éventuellement consommés
+  init(model: string): Promise<TokenUsage>;
+  generate(request: ProviderRequest): Promise<ProviderResponse>;
+}
+
+export interface ProviderOptions {
+  // URL de base d'un serveur compatible OpenAI, ex. http://localhost:8080/v1
+  baseUrl?: string;
+  apiKey?: string;
+  // Cassette où enregistrer les réponses (défaut : CLAUDE_RECORD)
+  record?: string;
+  // Cassette à rejouer hors ligne à la place du provider (défaut : CLAUDE_REPLAY)
+  replay?: string;
+}
+
+// Réponse HTTP en erreur d'un provider sans SDK ; classée comme les erreurs Anthropic
+export class ProviderHttpError extends Error {
+  readonly status: number;
+  readonly headers: Record<string, string>;
+
+  constructor(status: number, message: string, headers: Record<string, string> = {}) {
+    super(message);
+    this.name = 'ProviderHttpError';
+    this.status = status;
+    this.headers = headers;
+  }
+}
+
+function anthropicApiKey(): string {
+  return process.env.CLAUDE_API_KEY || process.env.CLAUDE_COOKIE || '';
+}
+
+// LLM_PROVIDER, sinon Anthropic si une clé est configurée, le mode démo à défaut
+export function defaultProviderName(): ProviderName {
+  const configured = process.env.LLM_PROVIDER as ProviderName | undefined;
+  if (configured && PROVIDER_NAMES.includes(configured)) return configured;
+
+  const apiKey = anthropicApiKey();
+  return !apiKey || apiKey === 'demo_mode' ? 'demo' : 'anthropic';
+}
+
+export function defaultModel(provider: ProviderName): string {
+  if (provider === 'openai') {
+    return process.env.OPENAI_MODEL || 'default';
+  }
+  return process.env.CLAUDE_MODEL || 'claude-3-5-sonnet-20241022';
+}
+
+export function createProvider(name: ProviderName = defaultProviderName(), options: ProviderOptions = {}): LLMProvider {
+  const replay = options.replay ?? process.env.CLAUDE_REPLAY;
+  if (replay) {
+    return new ReplayProvider(replay);
+  }
+
+  const record = options.record ?? process.env.CLAUDE_RECORD;
+  const provider = createLiveProvider(name, options);
+  return record ? new RecordingProvider(provider, record) : provider;
+}
+
+function createLiveProvider(name: ProviderName, options: ProviderOptions): LLMProvider {
+  switch (name) {
+    case 'anthropic':
+      return new AnthropicProvider(options.apiKey ?? anthropicApiKey());
+    case 'openai':
+      return new OpenAICompatibleProvider(
+        options.baseUrl ?? process.env.OPENAI_BASE_URL ?? 'http://localhost:8080/v1',
+        options.apiKey ?? process.env.OPENAI_API_KEY
+      );
+    case 'demo':
+      return new DemoProvider();
+  }
+}
+
+export class AnthropicProvider implements LLMProvider {
+  readonly name = 'anthropic';
+  readonly label = 'Anthropic API';
+  private client: Anthropic | null = null;
+  private apiKey: string;
+
+  constructor(apiKey: string) {
+    this.apiKey = apiKey;
+  }
+
+  async init(model: string): Promise<TokenUsage> {
+    if (!this.apiKey) {
+      throw new Error('CLAUDE_API_KEY is not set');
+    }
+
+    this.client = new Anthropic({
+      apiKey: this.apiKey,
+      // Les retries sont gérés par withRetry pour être visibles dans les logs
+      maxRetries: 0,
+    });
+
+    // Test rapide de la clé API
+    const message = await this.client.messages.create({
+      model,
+      max_tokens: 10,
+      messages: [{ role: 'user', content: 'Test' }],
+    });
+
+    return {
+      inputTokens: message.usage.input_tokens,
+      outputTokens: message.usage.output_tokens,
+      requests: 1,
+    };
+  }
+
+  async generate({ settings, messages, signal, onText }: ProviderRequest): Promise<ProviderResponse> {
+    const client = this.client;
+    if (!client) throw new Error('Claude client not initialized');
+
+    const stream = client.messages.stream({
+      model: settings.model,
+      max_tokens: settings.maxTokens,
+      temperature: settings.temperature,
+      stop_sequences: settings.stopSequences.length > 0 ? settings.stopSequences : undefined,
+      system: settings.systemPrompt,
+      messages,
+    }, { signal });
+
+    stream.on('text', delta => onText?.(delta));
+
+    const message = await stream.finalMessage();
+
+    return {
+      text: message.content[0]?.type === 'text' ? message.content[0].text : '',
+      stopReason: message.stop_reason === 'tool_use' ? 'end_turn' : message.stop_reason,
+      model: message.model,
+      inputTokens: message.usage.input_tokens,
+      outputTokens: message.usage.output_tokens,
+    };
+  }
+}
+
+// Serveur compatible OpenAI (llama.cpp, vLLM, Ollama, LM Studio…) via /chat/completions en SSE
+export class OpenAICompatibleProvider implements LLMProvider {
+  readonly name = 'openai';
+  readonly label: string;
+  private baseUrl: string;
+  private apiKey?: string;
+
+  constructor(baseUrl: string, apiKey?: string) {
+    this.baseUrl = baseUrl.replace(/\/+$/, '');
+    this.apiKey = apiKey;
+    this.label = `OpenAI-compatible API (${new URL(this.baseUrl).host})`;
+  }
+
+  // Liste des modèles : vérifie que le serveur répond, sans consommer de tokens
+  async init(): Promise<TokenUsage> {
+    const response = await fetch(`${this.baseUrl}/models`, { headers: this.headers() });
+    if (!response.ok) {
+      throw await this.httpError(response);
+    }
+    return emptyUsage();
+  }
+
+  async generate({ settings, messages, signal, onText }: ProviderRequest): Promise<ProviderResponse> {
+    const chat: { role: string; content: string }[] = [{ role: 'system', content: settings.systemPrompt }, ...messages];
+
+    // Pas de réponse préremplie dans ce protocole : demander explicitement la suite
+    if (messages[messages.length - 1]?.role === 'assistant') {
+      chat.push({
+        role: 'user',
+        content: 'Continue exactly where your previous answer stopped. Do not repeat anything already written.',
+      });
+    }
+
+    const response = await fetch(`${this.baseUrl}/chat/completions`, {
+      method: 'POST',
+      headers: { ...this.headers(), 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        model: settings.model,
+        messages: chat,
+        max_tokens: settings.maxTokens,
+        temperature: settings.temperature,
+        stop: settings.stopSequences.length > 0 ? settings.stopSequences : undefined,
+        stream: true,
+        stream_options: { include_usage: true },
+      }),
+      signal,
+    });
+
+    if (!response.ok || !response.body) {
+      throw await this.httpError(response);
+    }
+
+    let text = '';
+    let model = settings.model;
+    let finishReason: string | null = null;
+    let usage: { prompt_tokens?: number; completion_tokens?: number } | undefined;
+
+    const decoder = new TextDecoder();
+    let buffer = '';
+
+    for await (const chunk of response.body as unknown as AsyncIterable<Uint8Array>) {
+      buffer += decoder.decode(chunk, { stream: true });
+
+      let newline: number;
+      while ((newline = buffer.indexOf('\n')) !== -1) {
+        const line = buffer.slice(0, newline).trim();
+        buffer = buffer.slice(newline + 1);
+
+        if (!line.startsWith('data:')) continue;
+        const data = line.slice(5).trim();
+        if (data === '[DONE]') continue;
+
+        // Keep-alive ou ligne tronquée par un proxy : ignorée plutôt que d'échouer le prompt
+        let event;
+        try {
+          event = JSON.parse(data);
+        } catch {
+          continue;
+        }
+        model = event.model || model;
+        usage = event.usage ?? usage;
+
+        const choice = event.choices?.[0];
+        if (choice?.delta?.content) {
+          text += choice.delta.content;
+          onText?.(choice.delta.content);
+        }
+        finishReason = choice?.finish_reason ?? finishReason;
+      }
+    }
+
+    const prompt = chat.reduce((sum, message) => sum + message.content.length, 0);
+
+    return {
+      text,
+      stopReason: finishReason === 'length' ? 'max_tokens' : 'end_turn',
+      model,
+      // Serveurs qui ne renvoient pas l'usage : estimation à ≈ 4 caractères par token
+      inputTokens: usage?.prompt_tokens ?? Math.ceil(prompt / 4),
+      outputTokens: usage?.completion_tokens ?? Math.ceil(text.length / 4),
+    };
+  }
+
+  private headers(): Record<string, string> {
+    return this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : {};
+  }
+
+  private async httpError(response: Response): Promise<ProviderHttpError> {
+    const body = await response.text().catch(() => '');
+    return new ProviderHttpError(
+      response.status,
+      `${response.status} ${response.statusText}${body ? `: ${body.slice(0, 500)}` : ''}`,
+      Object.fromEntries(response.headers.entries())
+    );
+  }
+}
+
+// Réponses simulées, sans appel réseau : démonstration de l'interface sans clé API
+export class DemoProvider implements LLMProvider {
+  readonly name = 'demo';
+  readonly label = 'demo mode (simulated)';
+
+  async init(): Promise<TokenUsage> {
+    return emptyUsage();
+  }
+
+  async generate({ settings, messages, signal, onText }: ProviderRequest): Promise<ProviderResponse> {
+    // Simulation d'une vraie requête API avec délais réalistes
+    await delay(800, signal); // Simulation temps réseau
+
+    const demoResponse = `# Generated Documentation (DEMO Mode)
+
+## Response simulated by Claude Doc Bot
+
+This is a demonstration response. In real mode, this documentation would be generated by ${settings.model} via Anthropic's official API.
+
+### Demonstrated Features:
+- ✅ Complete user interface
+- ✅ Real-time progress via WebSocket
+- ✅ Live log streaming
+- ✅ File generation and saving
+- ✅ Instant downloads
+
+### Technical Architecture:
+- **Claude API**: Replaced Playwright with official API
+- **Faster**: ~3 seconds per prompt vs 30+ with Playwright
+- **More reliable**: No dependency on web interface
+- **More scalable**: API rate limits handled automatically
+
+### To enable real mode:
+1. Add your Claude API key in .env:
+   \`\`\`
+   CLAUDE_API_KEY=sk-ant-api03-your-key-here
+   \`\`\`
+2. Restart the application
+3. Enjoy ultra-fast automation! ⚡`;
+
+    // Simulation "Claude qui réfléchit et génère" en streaming
+    const chunkSize = Math.ceil(demoResponse.length / 25);
+    for (let offset = 0; offset < demoResponse.length; offset += chunkSize) {
+      await delay(100, signal);
+      signal?.throwIfAborted();
+      onText?.(demoResponse.slice(offset, offset + chunkSize));
+    }
+
+    const prompt = messages.reduce((sum, message) => sum + message.content.length, 0);
+
+    return {
+      text: demoResponse,
+      stopReason: 'end_turn',
+      model: settings.model,
+      // Usage simulé (≈ 4 caractères par token)
+      inputTokens: Math.ceil(prompt / 4),
+      outputTokens: Math.ceil(demoResponse.length / 4),
+    };
+  }
+}
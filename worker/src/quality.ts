@@ -0,0 +1,188 @@
+import path from 'path';
+
+export type QualityRule = 'unclosed-code-fence' | 'heading-hierarchy' | 'placeholder' | 'dead-link';
+
+export interface QualityFinding {
+  rule: QualityRule;
+  // error : document cassé à l'affichage ; warning : à relire
+  severity: 'error' | 'warning';
+  message: string;
+  // Ligne de la réponse (à partir de 1)
+  line: number;
+}
+
+export interface QualityOptions {
+  // Fichiers du job, cibles valides des liens relatifs
+  knownFiles?: string[];
+}
+
+// Textes laissés à compléter par le modèle (hors code)
+const PLACEHOLDER_PATTERNS: RegExp[] = [
+  /\b(TODO|TBD|FIXME)\b/,
+  /lorem ipsum/i,
+  /\[(insert|add|your|placeholder)\b[^\]]*\]/i,
+  /<(insert|placeholder)\b[^>]*>/i,
+  // Variable de template non remplacée
+  /\{\{\s*[\w.-]+\s*\}\}/,
+];
+
+const FENCE = /^ {0,3}(`{3,}|~{3,})/;
+const HEADING = /^ {0,3}(#{1,6})\s+(.*?)\s*#*\s*$/;
+const LINK = /!?\[[^\]]*\]\(\s*<?([^)\s>]+)>?(?:\s+["'][^"']*["'])?\s*\)/g;
+
+// Cible de lien décodée, ou null si l'encodage est invalide (« % » isolé)
+function decodeTarget(target: string): string | null {
+  try {
+    return decodeURIComponent(target);
+  } catch {
+    return null;
+  }
+}
+
+// Identifiant d'ancre d'un titre, à la manière de GitHub
+function headingSlug(title: string): string {
+  return title
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}\s_-]/gu, '')
+    .trim()
+    .replace(/\s/g, '-');
+}
+
+// Vérifie un document Markdown généré ; renvoie les problèmes dans l'ordre des lignes
+export function checkMarkdown(markdown: string, options: QualityOptions = {}): QualityFinding[] {
+  const findings: QualityFinding[] = [];
+  const knownFiles = new Set(options.knownFiles ?? []);
+  const lines = markdown.split('\n');
+
+  // Titres et liens hors blocs de code, les ancres ne sont vérifiées qu'une fois tous les titres connus
+  const anchors = new Set<string>();
+  const slugCounts = new Map<string, number>();
+  const links: { target: string; line: number }[] = [];
+  let fence: { marker: string; line: number } | undefined;
+  let previousLevel: number | undefined;
+
+  lines.forEach((text, index) => {
+    const line = index + 1;
+    const fenceMatch = FENCE.exec(text);
+
+    if (fence) {
+      // Fermeture : même caractère, au moins aussi long, rien après
+      if (
+        fenceMatch &&
+        fenceMatch[1][0] === fence.marker[0] &&
+        fenceMatch[1].length >= fence.marker.length &&
+        !text.trim().slice(fenceMatch[1].length).trim()
+      ) {
+        fence = undefined;
+      }
+      return;
+    }
+
+    if (fenceMatch) {
+      fence = { marker: fenceMatch[1], line };
+      return;
+    }
+
+    const heading = HEADING.exec(text);
+    if (heading) {
+      const level = heading[1].length;
+      if (previousLevel !== undefined && level > previousLevel + 1) {
+        findings.push({
+          rule: 'heading-hierarchy',
+          severity: 'warning',
+          message: `Heading level jumps from h${previousLevel} to h${level}: "${heading[2]}"`,
+          line,
+        });
+      }
+      previousLevel = level;
+
+      const slug = headingSlug(heading[2]);
+      const count = slugCounts.get(slug) ?? 0;
+      slugCounts.set(slug, count + 1);
+      anchors.add(count === 0 ? slug : `${slug}-${count}`);
+    }
+
+    // Le code en ligne peut légitimement contenir TODO, {{variable}} ou des liens d'exemple
+    const prose = text.replace(/`+[^`]*`+/g, '');
+
+    for (const pattern of PLACEHOLDER_PATTERNS) {
+      const match = pattern.exec(prose);
+      if (match) {
+        findings.push({
+          rule: 'placeholder',
+          severity: 'warning',
+          message: `Placeholder text left in the document: "${match[0]}"`,
+          line,
+        });
+        break;
+      }
+    }
+
+    for (const match of prose.matchAll(LINK)) {
+      links.push({ target: match[1], line });
+    }
+  });
+
+  if (fence) {
+    findings.push({
+      rule: 'unclosed-code-fence',
+      severity: 'error',
+      message: `Code block opened with ${fence.marker} is never closed`,
+      line: fence.line,
+    });
+  }
+
+  for (const { target, line } of links) {
+    // URL absolue (http:, mailto:…) ou relative au protocole : non vérifiée
+    if (/^([a-z][a-z\d+.-]*:|\/\/)/i.test(target)) continue;
+
+    if (target.startsWith('#')) {
+      const anchor = decodeTarget(target.slice(1));
+      if (anchor === null) {
+        findings.push({ rule: 'dead-link', severity: 'warning', message: `Link with malformed encoding: ${target}`, line });
+      } else if (!anchors.has(anchor.toLowerCase())) {
+        findings.push({ rule: 'dead-link', severity: 'warning', message: `Link to missing section: ${target}`, line });
+      }
+      continue;
+    }
+
+    // Les fichiers d'un job sont tous à la racine du dossier de sortie
+    const decoded = decodeTarget(target.split(/[?#]/)[0]);
+    if (decoded === null) {
+      findings.push({ rule: 'dead-link', severity: 'warning', message: `Link with malformed encoding: ${target}`, line });
+    } else if (!knownFiles.has(path.posix.normalize(decoded))) {
+      findings.push({ rule: 'dead-link', severity: 'warning', message: `Relative link to a file that does not exist: ${target}`, line });
+    }
+  }
+
+  return findings.sort((a, b) => a.line - b.line);
+}
+
+export function formatFinding(finding: QualityFinding): string {
+  return `line ${finding.line}: ${finding.message}`;
+}
+
+export function repairPrompt(prompt: string, document: string, findings: QualityFinding[], knownFiles: string[] = []): string {
+  const files = knownFiles.length > 0
+    ? `\nRelative links may only point to these files: ${knownFiles.join(', ')}. Remove or replace any other relative link.\n`
+    : '\nThere are no other files to link to: remove or replace relative links.\n';
+
+  return `The Markdown document below was generated for this request:
+
+${prompt}
+
+An automated review found these issues:
+${findings.map(finding => `- ${formatFinding(finding)}`).join('\n')}
+
+Rewrite the complete document so that none of these issues remain, keeping all other content unchanged. Reply with the corrected Markdown document only, without any commentary and without wrapping it in a code block.
+${files}
+Document to fix:
+
+${document}`;
+}
+
+// Réponse de réparation entièrement emballée dans un bloc ```markdown malgré la consigne
+export function unwrapMarkdown(text: string): string {
+  const wrapped = /^```(?:markdown|md)?\n([\s\S]*)\n```$/.exec(text.trim());
+  return wrapped ? wrapped[1].trim() : text.trim();
+}
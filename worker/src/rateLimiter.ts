@@ -0,0 +1,83 @@
+import { delay } from './delay.js';
+
+export interface RateLimitConfig {
+  requestsPerMinute?: number;
+  tokensPerMinute?: number;
+}
+
+export interface RateLimitTicket {
+  time: number;
+  tokens: number;
+}
+
+const WINDOW_MS = 60000;
+
+// Limiteur à fenêtre glissante d'une minute (requêtes et tokens)
+export class RateLimiter {
+  private config: RateLimitConfig;
+  private entries: RateLimitTicket[] = [];
+
+  constructor(config: RateLimitConfig = {}) {
+    this.config = config;
+  }
+
+  static fromEnv(): RateLimiter {
+    return new RateLimiter({
+      requestsPerMinute: Number(process.env.CLAUDE_RPM) || 50,
+      tokensPerMinute: Number(process.env.CLAUDE_TPM) || undefined,
+    });
+  }
+
+  // Attend qu'une requête estimée à `tokens` tokens puisse partir
+  async acquire(tokens: number, signal?: AbortSignal): Promise<RateLimitTicket> {
+    for (;;) {
+      signal?.throwIfAborted();
+
+      const now = Date.now();
+      this.prune(now);
+
+      const wait = this.waitTime(now, tokens);
+      if (wait <= 0) {
+        const ticket = { time: now, tokens };
+        this.entries.push(ticket);
+        return ticket;
+      }
+
+      await delay(wait, signal);
+    }
+  }
+
+  // Remplace l'estimation par la consommation réelle une fois connue
+  settle(ticket: RateLimitTicket, actualTokens: number): void {
+    ticket.tokens = actualTokens;
+  }
+
+  private waitTime(now: number, tokens: number): number {
+    const { requestsPerMinute, tokensPerMinute } = this.config;
+    let wait = 0;
+
+    if (requestsPerMinute && this.entries.length >= requestsPerMinute) {
+      const oldest = this.entries[this.entries.length - requestsPerMinute];
+      wait = Math.max(wait, oldest.time + WINDOW_MS - now);
+    }
+
+    if (tokensPerMinute && this.entries.length > 0) {
+      let used = this.entries.reduce((sum, e) => sum + e.tokens, 0);
+
+      // Trouver à partir de quand assez de tokens seront sortis de la fenêtre
+      for (const entry of this.entries) {
+        if (used + tokens <= tokensPerMinute) break;
+        used -= entry.tokens;
+        wait = Math.max(wait, entry.time + WINDOW_MS - now);
+      }
+    }
+
+    return wait;
+  }
+
+  private prune(now: number): void {
+    while (this.entries.length > 0 && this.entries[0].time + WINDOW_MS <= now) {
+      this.entries.shift();
+    }
+  }
+}
@@ -0,0 +1,142 @@
+import Anthropic from '@anthropic-ai/sdk';
+import { delay } from './delay.js';
+import { ProviderHttpError } from './providers.js';
+
+export type ErrorClass =
+  | 'rate_limit'
+  | 'overloaded'
+  | 'server_error'
+  | 'network'
+  | 'timeout'
+  | 'client_error'
+  | 'aborted'
+  | 'unknown';
+
+export interface RetryPolicy {
+  maxAttempts: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+export interface RetryInfo {
+  attempt: number;
+  maxAttempts: number;
+  delayMs: number;
+  errorClass: ErrorClass;
+  message: string;
+}
+
+// Erreur finale enrichie du nombre de tentatives effectuées
+export class RetryError extends Error {
+  readonly attempts: number;
+  readonly errorClass: ErrorClass;
+
+  constructor(cause: unknown, attempts: number, errorClass: ErrorClass) {
+    super(cause instanceof Error ? cause.message : 'Unknown error');
+    this.name = 'RetryError';
+    this.attempts = attempts;
+    this.errorClass = errorClass;
+  }
+}
+
+const RETRYABLE: ErrorClass[] = ['rate_limit', 'overloaded', 'server_error', 'network', 'timeout'];
+
+// Plafond appliqué aux en-têtes retry-after trop généreux
+const MAX_RETRY_AFTER_MS = 5 * 60000;
+
+export function defaultRetryPolicy(): RetryPolicy {
+  return {
+    maxAttempts: (Number(process.env.CLAUDE_MAX_RETRIES) || 4) + 1,
+    baseDelayMs: 1000,
+    maxDelayMs: 60000,
+  };
+}
+
+export function classifyError(error: unknown): ErrorClass {
+  if (error instanceof Anthropic.APIUserAbortError) return 'aborted';
+  if (error instanceof Anthropic.APIConnectionTimeoutError) return 'timeout';
+  if (error instanceof Anthropic.APIConnectionError) return 'network';
+
+  const status = error instanceof Anthropic.APIError || error instanceof ProviderHttpError ? error.status : undefined;
+  if (status !== undefined) {
+    if (status === 429) return 'rate_limit';
+    if (status === 529) return 'overloaded';
+    if (status >= 500) return 'server_error';
+    return 'client_error';
+  }
+
+  // Erreurs de fetch (providers HTTP sans SDK)
+  if (error instanceof Error) {
+    if (error.name === 'AbortError') return 'aborted';
+    if (error.name === 'TimeoutError') return 'timeout';
+    if (error instanceof TypeError && error.message === 'fetch failed') return 'network';
+  }
+
+  return 'unknown';
+}
+
+export function isRetryable(errorClass: ErrorClass): boolean {
+  return RETRYABLE.includes(errorClass);
+}
+
+// Délai avant la tentative suivante : retry-after si fourni, sinon backoff exponentiel avec jitter
+export function retryDelay(policy: RetryPolicy, attempt: number, error: unknown): number {
+  const retryAfter = retryAfterMs(error);
+  if (retryAfter !== undefined) {
+    return Math.min(retryAfter, MAX_RETRY_AFTER_MS);
+  }
+
+  const exponential = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** (attempt - 1));
+  return Math.round(exponential / 2 + Math.random() * (exponential / 2));
+}
+
+function retryAfterMs(error: unknown): number | undefined {
+  const headers = error instanceof Anthropic.APIError || error instanceof ProviderHttpError ? error.headers : undefined;
+  if (!headers) return undefined;
+
+  const ms = Number(headers['retry-after-ms']);
+  if (ms > 0) return ms;
+
+  const header = headers['retry-after'];
+  if (!header) return undefined;
+
+  const seconds = Number(header);
+  if (!Number.isNaN(seconds)) return Math.max(0, seconds * 1000);
+
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+export async function withRetry<T>(
+  fn: (attempt: number) => Promise<T>,
+  options: {
+    policy: RetryPolicy;
+    signal?: AbortSignal;
+    onRetry?: (info: RetryInfo) => void;
+  }
+): Promise<{ value: T; attempts: number }> {
+  const { policy, signal, onRetry } = options;
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return { value: await fn(attempt), attempts: attempt };
+    } catch (error) {
+      const errorClass = classifyError(error);
+
+      if (signal?.aborted || !isRetryable(errorClass) || attempt >= policy.maxAttempts) {
+        throw new RetryError(error, attempt, errorClass);
+      }
+
+      const delayMs = retryDelay(policy, attempt, error);
+      onRetry?.({
+        attempt,
+        maxAttempts: policy.maxAttempts,
+        delayMs,
+        errorClass,
+        message: error instanceof Error ? error.message : 'Unknown error',
+      });
+
+      await delay(delayMs, signal);
+    }
+  }
+}
@@ -0,0 +1,278 @@
+import fs from 'fs-extra';
+import path from 'path';
+import AdmZip from 'adm-zip';
+import { Parser, ReadEntry } from 'tar';
+
+export interface SourceFile {
+  // Chemin relatif à la racine du dépôt, séparateurs `/`
+  path: string;
+  content: string;
+}
+
+// Extrait de fichier retenu pour un prompt
+export interface SourceChunk {
+  path: string;
+  startLine: number;
+  endLine: number;
+  content: string;
+}
+
+export type SourceArchiveFormat = 'zip' | 'tar.gz';
+
+// Sources ou archive invalides fournies par l'utilisateur
+export class SourceError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SourceError';
+  }
+}
+
+export const MAX_SOURCE_FILE_BYTES = 256 * 1024;
+export const MAX_SOURCE_FILES = 5000;
+
+// Lignes par extrait : un gros fichier est découpé pour n'en garder que les parties pertinentes
+const CHUNK_LINES = 150;
+
+const IGNORED_DIRECTORIES = new Set(['.git', 'node_modules', 'dist', 'build', '.next', 'coverage', 'vendor', '__pycache__']);
+
+const STOP_WORDS = new Set([
+  'the', 'and', 'for', 'with', 'that', 'this', 'from', 'into', 'your', 'are', 'how', 'all', 'use', 'using',
+  'create', 'write', 'generate', 'document', 'documentation', 'guide', 'comprehensive', 'complete', 'detailed',
+  'include', 'including', 'examples', 'example', 'about', 'should', 'their', 'each', 'which', 'what',
+]);
+
+export function defaultSourceTokenBudget(): number {
+  return Number(process.env.CLAUDE_SOURCE_TOKENS) || 50000;
+}
+
+// Fichiers texte d'un dossier, d'une archive .zip ou .tar.gz
+export async function loadSources(location: string): Promise<SourceFile[]> {
+  const stat = await fs.stat(location);
+  if (stat.isDirectory()) {
+    return readSourceDirectory(location);
+  }
+
+  const format = detectSourceArchiveFormat(location);
+  if (!format) {
+    throw new SourceError(`Unsupported source archive: ${location} (expected .zip or .tar.gz)`);
+  }
+  return readSourceArchive(await fs.readFile(location), format);
+}
+
+export function detectSourceArchiveFormat(filename: string): SourceArchiveFormat | undefined {
+  const name = filename.toLowerCase();
+  if (name.endsWith('.zip')) return 'zip';
+  if (name.endsWith('.tar.gz') || name.endsWith('.tgz')) return 'tar.gz';
+  return undefined;
+}
+
+export async function readSourceDirectory(root: string): Promise<SourceFile[]> {
+  const files: SourceFile[] = [];
+
+  const walk = async (dir: string): Promise<void> => {
+    for (const entry of await fs.readdir(dir, { withFileTypes: true })) {
+      if (files.length >= MAX_SOURCE_FILES) return;
+
+      const fullPath = path.join(dir, entry.name);
+      if (entry.isDirectory()) {
+        if (!IGNORED_DIRECTORIES.has(entry.name)) await walk(fullPath);
+      } else if (entry.isFile()) {
+        addSourceFile(files, path.relative(root, fullPath), await fs.readFile(fullPath));
+      }
+    }
+  };
+
+  await walk(root);
+  return files;
+}
+
+// Lecture en mémoire : aucun fichier de l'archive n'est écrit sur le disque
+export async function readSourceArchive(data: Buffer, format: SourceArchiveFormat): Promise<SourceFile[]> {
+  const files: SourceFile[] = [];
+
+  if (format === 'zip') {
+    let zip: AdmZip;
+    try {
+      zip = new AdmZip(data);
+    } catch (error) {
+      throw new SourceError(`Invalid zip archive: ${error instanceof Error ? error.message : error}`);
+    }
+
+    for (const entry of zip.getEntries()) {
+      if (!entry.isDirectory && entry.header.size <= MAX_SOURCE_FILE_BYTES) {
+        addSourceFile(files, entry.entryName, entry.getData());
+      }
+    }
+  } else {
+    await new Promise<void>((resolve, reject) => {
+      const parser = new Parser({
+        onReadEntry: (entry: ReadEntry) => {
+          if (entry.type !== 'File' || entry.size > MAX_SOURCE_FILE_BYTES) {
+            entry.resume();
+            return;
+          }
+
+          const chunks: Buffer[] = [];
+          entry.on('data', (chunk: Buffer) => chunks.push(chunk));
+          entry.on('end', () => addSourceFile(files, entry.path, Buffer.concat(chunks)));
+        },
+      });
+
+      parser.on('error', error => reject(new SourceError(`Invalid tar.gz archive: ${error.message}`)));
+      parser.on('end', () => resolve());
+      parser.end(data);
+    });
+  }
+
+  return stripCommonRoot(files);
+}
+
+// Fichiers envoyés directement (JSON) : mêmes règles que pour une archive
+export function parseSourceFiles(input: unknown): SourceFile[] {
+  if (!Array.isArray(input)) {
+    throw new SourceError('files must be an array of { path, content } objects');
+  }
+
+  const files: SourceFile[] = [];
+  for (const [index, item] of input.entries()) {
+    if (!item || typeof item.path !== 'string' || typeof item.content !== 'string' || !item.path.trim()) {
+      throw new SourceError(`File ${index + 1} must have a non-empty path and a string content`);
+    }
+    addSourceFile(files, item.path, Buffer.from(item.content, 'utf-8'));
+  }
+
+  return files;
+}
+
+// Extraits les plus pertinents pour le prompt, dans la limite du budget de tokens
+export function selectSources(
+  prompt: string,
+  files: SourceFile[],
+  options: { include?: string[]; maxTokens?: number } = {}
+): SourceChunk[] {
+  const { include = [], maxTokens = defaultSourceTokenBudget() } = options;
+  const patterns = include.map(globToRegExp);
+  const candidates = patterns.length > 0
+    ? files.filter(file => patterns.some(pattern => pattern.test(file.path)))
+    : files;
+
+  const terms = [...new Set(prompt.toLowerCase().match(/[a-z0-9_]{3,}/g) ?? [])]
+    .filter(term => !STOP_WORDS.has(term));
+
+  const ranked = candidates
+    .flatMap(chunkFile)
+    .map(chunk => ({ chunk, score: scoreChunk(chunk, terms) }))
+    // Sans correspondance, un extrait n'est retenu que si les globs l'ont explicitement ciblé
+    .filter(({ score }) => score > 0 || patterns.length > 0)
+    .sort((a, b) => b.score - a.score);
+
+  const selected: SourceChunk[] = [];
+  let budget = maxTokens * 4;
+
+  for (const { chunk } of ranked) {
+    const size = chunk.content.length + chunk.path.length + 50;
+    if (size > budget) continue;
+    selected.push(chunk);
+    budget -= size;
+  }
+
+  return selected.sort((a, b) => a.path.localeCompare(b.path) || a.startLine - b.startLine);
+}
+
+// Prompt enrichi des extraits de code, sur lesquels la documentation doit s'appuyer
+export function withSources(prompt: string, chunks: SourceChunk[]): string {
+  if (chunks.length === 0) return prompt;
+
+  const blocks = chunks
+    .map(chunk => `<source path="${chunk.path}" lines="${chunk.startLine}-${chunk.endLine}">\n${chunk.content}\n</source>`)
+    .join('\n\n');
+
+  return `The following excerpts come from the project's source code. Base the documentation on them and do not invent endpoints, parameters or behaviour that they do not show.
+
+${blocks}
+
+${prompt}`;
+}
+
+// Fichiers distincts dont des extraits ont été retenus
+export function sourcePaths(chunks: SourceChunk[]): string[] {
+  return [...new Set(chunks.map(chunk => chunk.path))];
+}
+
+// Glob minimal : `**` traverse les dossiers, `*` et `?` restent dans un segment
+export function globToRegExp(glob: string): RegExp {
+  let pattern = '';
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+    if (char === '*' && glob[i + 1] === '*') {
+      // `**/` correspond aussi à zéro dossier
+      pattern += glob[i + 2] === '/' ? '(?:.*/)?' : '.*';
+      i += glob[i + 2] === '/' ? 2 : 1;
+    } else if (char === '*') {
+      pattern += '[^/]*';
+    } else if (char === '?') {
+      pattern += '[^/]';
+    } else {
+      pattern += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${pattern}$`);
+}
+
+function addSourceFile(files: SourceFile[], filePath: string, data: Buffer): void {
+  const normalized = filePath.split(path.sep).join('/').replace(/^(\.?\/)+/, '');
+  const segments = normalized.split('/');
+
+  if (files.length >= MAX_SOURCE_FILES) return;
+  if (data.length > MAX_SOURCE_FILE_BYTES) return;
+  if (segments.some(segment => IGNORED_DIRECTORIES.has(segment) || segment === '..')) return;
+  // Fichier binaire
+  if (data.includes(0)) return;
+
+  files.push({ path: normalized, content: data.toString('utf-8') });
+}
+
+// Archives GitHub & co : tout est sous un unique dossier `repo-main/`
+function stripCommonRoot(files: SourceFile[]): SourceFile[] {
+  const roots = new Set(files.map(file => file.path.split('/')[0]));
+  if (roots.size !== 1 || files.some(file => !file.path.includes('/'))) return files;
+
+  const [root] = roots;
+  return files.map(file => ({ ...file, path: file.path.slice(root.length + 1) }));
+}
+
+function chunkFile(file: SourceFile): SourceChunk[] {
+  const lines = file.content.split('\n');
+  const chunks: SourceChunk[] = [];
+
+  for (let start = 0; start < lines.length; start += CHUNK_LINES) {
+    const end = Math.min(start + CHUNK_LINES, lines.length);
+    chunks.push({
+      path: file.path,
+      startLine: start + 1,
+      endLine: end,
+      content: lines.slice(start, end).join('\n'),
+    });
+  }
+
+  return chunks;
+}
+
+// Score simple par mots-clés : présence dans le chemin, puis fréquence dans le contenu
+function scoreChunk(chunk: SourceChunk, terms: string[]): number {
+  const filePath = chunk.path.toLowerCase();
+  const content = chunk.content.toLowerCase();
+  let score = 0;
+
+  for (const term of terms) {
+    if (filePath.includes(term)) score += 3;
+
+    let count = 0;
+    for (let i = content.indexOf(term); i !== -1 && count < 50; i = content.indexOf(term, i + term.length)) {
+      count++;
+    }
+    score += Math.log1p(count);
+  }
+
+  return score;
+}
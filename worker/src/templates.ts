@@ -0,0 +1,178 @@
+export type DatasetFormat = 'csv' | 'json';
+
+export type TemplateRow = Record<string, string>;
+
+export interface ExpandedPrompt {
+  prompt: string;
+  variables: TemplateRow;
+}
+
+// Template ou jeu de données invalide fourni par l'utilisateur
+export class TemplateError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TemplateError';
+  }
+}
+
+const PLACEHOLDER = /\{\{\s*([\w.-]+)\s*\}\}/g;
+
+export const MAX_DATASET_ROWS = 1000;
+
+export function templateVariables(template: string): string[] {
+  return [...new Set([...template.matchAll(PLACEHOLDER)].map(match => match[1]))];
+}
+
+// Remplace les {{variables}} ; une variable absente de la ligne est une erreur
+export function renderTemplate(template: string, row: TemplateRow): string {
+  return template.replace(PLACEHOLDER, (_, name: string) => {
+    if (!Object.hasOwn(row, name)) {
+      throw new TemplateError(`Missing variable "${name}"`);
+    }
+    return row[name];
+  });
+}
+
+export function detectDatasetFormat(filename: string): DatasetFormat {
+  return filename.toLowerCase().endsWith('.json') ? 'json' : 'csv';
+}
+
+export function parseDataset(content: string | unknown[], format: DatasetFormat): TemplateRow[] {
+  const rows = Array.isArray(content)
+    ? normalizeRows(content)
+    : format === 'json'
+      ? parseJsonDataset(content)
+      : parseCsv(content);
+
+  if (rows.length === 0) {
+    throw new TemplateError('Dataset is empty');
+  }
+  if (rows.length > MAX_DATASET_ROWS) {
+    throw new TemplateError(`Dataset has ${rows.length} rows (max ${MAX_DATASET_ROWS})`);
+  }
+
+  return rows;
+}
+
+// Une ligne du jeu de données = un prompt
+export function expandTemplate(template: string, rows: TemplateRow[]): ExpandedPrompt[] {
+  if (!template.trim()) {
+    throw new TemplateError('Template is empty');
+  }
+
+  return rows.map((variables, index) => {
+    try {
+      return { prompt: renderTemplate(template, variables).trim(), variables };
+    } catch (error) {
+      throw new TemplateError(`Row ${index + 1}: ${error instanceof Error ? error.message : error}`);
+    }
+  });
+}
+
+function parseJsonDataset(content: string): TemplateRow[] {
+  let data: unknown;
+  try {
+    data = JSON.parse(content);
+  } catch (error) {
+    throw new TemplateError(`Invalid JSON dataset: ${error instanceof Error ? error.message : error}`);
+  }
+
+  if (!Array.isArray(data)) {
+    throw new TemplateError('JSON dataset must be an array of objects');
+  }
+  return normalizeRows(data);
+}
+
+function normalizeRows(data: unknown[]): TemplateRow[] {
+  return data.map((item, index) => {
+    if (!item || typeof item !== 'object' || Array.isArray(item)) {
+      throw new TemplateError(`Row ${index + 1} is not an object`);
+    }
+
+    const row: TemplateRow = {};
+    for (const [key, value] of Object.entries(item)) {
+      row[key] = typeof value === 'string' ? value : JSON.stringify(value);
+    }
+    return row;
+  });
+}
+
+// CSV avec ligne d'en-tête, guillemets doubles et sauts de ligne dans les champs (RFC 4180)
+function parseCsv(content: string): TemplateRow[] {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+
+    if (quoted) {
+      if (char === '"' && content[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      record.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') i++;
+      record.push(field);
+      records.push(record);
+      record = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (quoted) {
+    throw new TemplateError('Invalid CSV dataset: unterminated quoted field');
+  }
+  if (field || record.length > 0) {
+    record.push(field);
+    records.push(record);
+  }
+
+  const [header, ...lines] = records.filter(r => r.some(value => value.trim()));
+  if (!header) return [];
+
+  const columns = header.map(column => column.trim());
+  return lines.map((values, index) => {
+    if (values.length !== columns.length) {
+      throw new TemplateError(
+        `Invalid CSV dataset: row ${index + 1} has ${values.length} fields, expected ${columns.length}`
+      );
+    }
+    return Object.fromEntries(columns.map((column, i) => [column, values[i]]));
+  });
+}
+
+export interface TemplateSource {
+  template: string;
+  // Contenu CSV/JSON brut, ou lignes déjà décodées
+  dataset: string | unknown[];
+  datasetFormat?: DatasetFormat;
+}
+
+export function expandTemplateSource(source: TemplateSource): ExpandedPrompt[] {
+  const { template, dataset, datasetFormat = 'csv' } = source;
+
+  if (typeof template !== 'string') {
+    throw new TemplateError('template must be a string');
+  }
+  if (typeof dataset !== 'string' && !Array.isArray(dataset)) {
+    throw new TemplateError('dataset must be a CSV/JSON string or an array of objects');
+  }
+  if (datasetFormat !== 'csv' && datasetFormat !== 'json') {
+    throw new TemplateError('datasetFormat must be "csv" or "json"');
+  }
+
+  return expandTemplate(template, parseDataset(dataset, datasetFormat));
+}
@@ -0,0 +1,78 @@
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+  requests: number;
+}
+
+// Totaux d'un job ; cost vaut null si un modèle utilisé n'a pas de prix connu
+export interface UsageSummary extends TokenUsage {
+  cost: number | null;
+}
+
+// Prix en dollars par million de tokens
+export interface ModelPrice {
+  input: number;
+  output: number;
+}
+
+export type PriceTable = Record<string, ModelPrice>;
+
+// Clés = préfixes d'identifiants de modèles, le plus long préfixe correspondant l'emporte
+export const DEFAULT_PRICES: PriceTable = {
+  'claude-3-5-sonnet': { input: 3, output: 15 },
+  'claude-3-5-haiku': { input: 0.8, output: 4 },
+  'claude-3-opus': { input: 15, output: 75 },
+  'claude-3-sonnet': { input: 3, output: 15 },
+  'claude-3-haiku': { input: 0.25, output: 1.25 },
+};
+
+export function emptyUsage(): TokenUsage {
+  return { inputTokens: 0, outputTokens: 0, requests: 0 };
+}
+
+export function addUsage(total: TokenUsage, usage: TokenUsage): TokenUsage {
+  return {
+    inputTokens: total.inputTokens + usage.inputTokens,
+    outputTokens: total.outputTokens + usage.outputTokens,
+    requests: total.requests + usage.requests,
+  };
+}
+
+// Table par défaut, complétée ou corrigée par CLAUDE_PRICES (JSON)
+export function loadPriceTable(): PriceTable {
+  const override = process.env.CLAUDE_PRICES;
+  if (!override) return DEFAULT_PRICES;
+
+  try {
+    return { ...DEFAULT_PRICES, ...JSON.parse(override) };
+  } catch (error) {
+    console.warn('⚠️ Invalid CLAUDE_PRICES, using default prices:', error);
+    return DEFAULT_PRICES;
+  }
+}
+
+export function estimateCost(model: string, usage: TokenUsage, prices: PriceTable = loadPriceTable()): number | null {
+  const key = Object.keys(prices)
+    .filter(prefix => model.startsWith(prefix))
+    .sort((a, b) => b.length - a.length)[0];
+  if (!key) return null;
+
+  const price = prices[key];
+  return (usage.inputTokens * price.input + usage.outputTokens * price.output) / 1_000_000;
+}
+
+export function summarizeUsage(entries: { usage?: TokenUsage; cost?: number | null }[]): UsageSummary {
+  let total = emptyUsage();
+  let cost: number | null = 0;
+
+  for (const entry of entries) {
+    if (!entry.usage) continue;
+
+    total = addUsage(total, entry.usage);
+    if (entry.usage.requests > 0) {
+      cost = cost === null || entry.cost == null ? null : cost + entry.cost;
+    }
+  }
+
+  return { ...total, cost };
+}
@@ -0,0 +1,64 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { MAX_FILENAME_LENGTH, assignFilenames, filenamePatternFor, validateFilenamePattern } from '../src/naming.js';
+
+describe('assignFilenames', () => {
+  it('renders the pattern and numbers duplicate names', () => {
+    assert.deepEqual(assignFilenames(['Getting started', 'Getting started', 'API'], '{{slug}}'), [
+      'getting-started.md',
+      'getting-started-2.md',
+      'api.md',
+    ]);
+  });
+
+  it('pads the index and fills template variables', () => {
+    const prompts = Array.from({ length: 10 }, (_, i) => `prompt ${i}`);
+    const variables = prompts.map((_, i) => ({ service: `svc ${i}` }));
+
+    const filenames = assignFilenames(prompts, '{{index}}-{{service}}', variables);
+
+    assert.equal(filenames[0], '01-svc-0.md');
+    assert.equal(filenames[9], '10-svc-9.md');
+  });
+
+  it('falls back to the index when the rendered name is empty', () => {
+    assert.deepEqual(assignFilenames(['文档', '説明'], '{{slug}}'), ['prompt-1.md', 'prompt-2.md']);
+  });
+
+  it('truncates long names and keeps them distinct', () => {
+    const long = 'x'.repeat(400);
+    const filenames = assignFilenames(['a', 'b'], '{{name}}', [{ name: long }, { name: `${long}y` }]);
+
+    assert.notEqual(filenames[0], filenames[1]);
+    for (const filename of filenames) {
+      assert.ok(filename.length <= MAX_FILENAME_LENGTH + '.md'.length);
+      assert.match(filename, /^x+-[0-9a-f]{8}\.md$/);
+    }
+  });
+});
+
+describe('validateFilenamePattern', () => {
+  it('accepts built-in variables and variables present in every row', () => {
+    validateFilenamePattern('{{index}}-{{slug}}-{{hash}}');
+    validateFilenamePattern('{{service}}', [{ service: 'billing' }, { service: 'auth' }]);
+  });
+
+  it('rejects empty patterns and unknown variables', () => {
+    assert.throws(() => validateFilenamePattern('  '), /Filename pattern is empty/);
+    assert.throws(() => validateFilenamePattern('{{service}}'), /Unknown filename variable "service"/);
+    assert.throws(
+      () => validateFilenamePattern('{{service}}', [{ service: 'billing' }, { team: 'payments' }]),
+      /Row 2: Missing variable "service"/
+    );
+  });
+
+  it('does not resolve variables inherited from Object.prototype', () => {
+    assert.throws(() => validateFilenamePattern('{{constructor}}', [{ service: 'billing' }]), /Missing variable "constructor"/);
+  });
+});
+
+describe('filenamePatternFor', () => {
+  it('prefixes demo files', () => {
+    assert.equal(filenamePatternFor('demo'), 'demo-{{index}}-{{slug}}');
+  });
+});
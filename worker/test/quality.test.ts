@@ -0,0 +1,47 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { checkMarkdown } from '../src/quality.js';
+
+function rules(markdown: string, knownFiles?: string[]) {
+  return checkMarkdown(markdown, { knownFiles }).map(finding => [finding.rule, finding.line]);
+}
+
+describe('checkMarkdown', () => {
+  it('accepts a clean document', () => {
+    const markdown = '# Guide\n\n## Install\n\nSee [usage](#usage) and [API](api.md).\n\n## Usage\n\n```ts\n// TODO\n```\n';
+    assert.deepEqual(checkMarkdown(markdown, { knownFiles: ['api.md'] }), []);
+  });
+
+  it('reports unclosed code fences', () => {
+    assert.deepEqual(rules('# Guide\n\n```js\nconst a = 1;\n'), [['unclosed-code-fence', 3]]);
+  });
+
+  it('reports skipped heading levels', () => {
+    assert.deepEqual(rules('# Guide\n\n### Details\n\n## Next\n'), [['heading-hierarchy', 3]]);
+  });
+
+  it('reports placeholders outside code', () => {
+    assert.deepEqual(rules('# Guide\n\nTODO: write this\n\n`{{not_a_placeholder}}`\n\nHello {{name}}\n'), [
+      ['placeholder', 3],
+      ['placeholder', 7],
+    ]);
+  });
+
+  it('reports links to missing sections and files', () => {
+    assert.deepEqual(rules('# Guide\n\n[a](#guide) [b](#missing)\n\n[c](other.md) [d](https://example.com/x.md)\n', []), [
+      ['dead-link', 3],
+      ['dead-link', 5],
+    ]);
+  });
+
+  it('matches anchors of duplicate and encoded headings', () => {
+    assert.deepEqual(rules('# Étape\n\n# Étape\n\n[a](#%C3%A9tape-1)\n'), []);
+  });
+
+  it('reports links with malformed percent-encoding instead of throwing', () => {
+    assert.deepEqual(rules('# Stats\n\n[growth](#100%)\n\n[r](stats%.md)\n', ['stats.md']), [
+      ['dead-link', 3],
+      ['dead-link', 5],
+    ]);
+  });
+});
@@ -0,0 +1,42 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { RateLimiter } from '../src/rateLimiter.js';
+
+describe('RateLimiter', () => {
+  it('lets requests through until the per-minute request limit', async () => {
+    const limiter = new RateLimiter({ requestsPerMinute: 2 });
+
+    await limiter.acquire(0);
+    await limiter.acquire(0);
+
+    await assert.rejects(limiter.acquire(0, AbortSignal.timeout(50)), { name: 'TimeoutError' });
+  });
+
+  it('waits when the token budget of the window is used up', async () => {
+    const limiter = new RateLimiter({ tokensPerMinute: 100 });
+
+    await limiter.acquire(60);
+
+    await assert.rejects(limiter.acquire(60, AbortSignal.timeout(50)), { name: 'TimeoutError' });
+  });
+
+  it('counts the settled token usage instead of the estimate', async () => {
+    const limiter = new RateLimiter({ tokensPerMinute: 100 });
+
+    const ticket = await limiter.acquire(90);
+    limiter.settle(ticket, 10);
+
+    await limiter.acquire(60, AbortSignal.timeout(50));
+  });
+
+  it('stops waiting when the signal is aborted', async () => {
+    const limiter = new RateLimiter({ requestsPerMinute: 1 });
+    const controller = new AbortController();
+
+    await limiter.acquire(0);
+    const pending = limiter.acquire(0, controller.signal);
+    controller.abort();
+
+    await assert.rejects(pending, { name: 'AbortError' });
+  });
+});
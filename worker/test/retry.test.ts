@@ -0,0 +1,96 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { ProviderHttpError } from '../src/providers.js';
+import { RetryError, RetryInfo, classifyError, retryDelay, withRetry } from '../src/retry.js';
+
+const policy = { maxAttempts: 3, baseDelayMs: 1, maxDelayMs: 10 };
+
+describe('classifyError', () => {
+  it('classifies HTTP statuses', () => {
+    assert.equal(classifyError(new ProviderHttpError(429, 'slow down')), 'rate_limit');
+    assert.equal(classifyError(new ProviderHttpError(529, 'overloaded')), 'overloaded');
+    assert.equal(classifyError(new ProviderHttpError(502, 'bad gateway')), 'server_error');
+    assert.equal(classifyError(new ProviderHttpError(400, 'bad request')), 'client_error');
+  });
+
+  it('classifies fetch failures', () => {
+    assert.equal(classifyError(new TypeError('fetch failed')), 'network');
+    assert.equal(classifyError(new DOMException('timed out', 'TimeoutError')), 'timeout');
+    assert.equal(classifyError(new DOMException('aborted', 'AbortError')), 'aborted');
+    assert.equal(classifyError(new Error('boom')), 'unknown');
+  });
+});
+
+describe('retryDelay', () => {
+  it('follows retry-after headers, capped at five minutes', () => {
+    assert.equal(retryDelay(policy, 1, new ProviderHttpError(429, '', { 'retry-after': '2' })), 2000);
+    assert.equal(retryDelay(policy, 1, new ProviderHttpError(429, '', { 'retry-after-ms': '150' })), 150);
+    assert.equal(retryDelay(policy, 1, new ProviderHttpError(429, '', { 'retry-after': '3600' })), 5 * 60000);
+  });
+
+  it('backs off exponentially with jitter up to the maximum delay', () => {
+    const exponential = { maxAttempts: 5, baseDelayMs: 1000, maxDelayMs: 3000 };
+
+    for (let i = 0; i < 20; i++) {
+      const first = retryDelay(exponential, 1, new Error('boom'));
+      assert.ok(first >= 500 && first <= 1000);
+
+      const capped = retryDelay(exponential, 4, new Error('boom'));
+      assert.ok(capped >= 1500 && capped <= 3000);
+    }
+  });
+});
+
+describe('withRetry', () => {
+  it('retries transient errors until the call succeeds', async () => {
+    const retries: RetryInfo[] = [];
+    let calls = 0;
+
+    const result = await withRetry(
+      async () => {
+        if (++calls < 3) throw new ProviderHttpError(503, 'unavailable');
+        return 'ok';
+      },
+      { policy, onRetry: info => retries.push(info) }
+    );
+
+    assert.deepEqual(result, { value: 'ok', attempts: 3 });
+    assert.deepEqual(
+      retries.map(info => [info.attempt, info.errorClass]),
+      [
+        [1, 'server_error'],
+        [2, 'server_error'],
+      ]
+    );
+  });
+
+  it('does not retry client errors', async () => {
+    let calls = 0;
+
+    await assert.rejects(
+      withRetry(
+        async () => {
+          calls++;
+          throw new ProviderHttpError(400, 'bad request');
+        },
+        { policy }
+      ),
+      (error: unknown) =>
+        error instanceof RetryError && error.attempts === 1 && error.errorClass === 'client_error'
+    );
+    assert.equal(calls, 1);
+  });
+
+  it('gives up after the last attempt', async () => {
+    await assert.rejects(
+      withRetry(
+        async () => {
+          throw new ProviderHttpError(429, 'slow down');
+        },
+        { policy }
+      ),
+      (error: unknown) =>
+        error instanceof RetryError && error.attempts === 3 && error.message === 'slow down'
+    );
+  });
+});
@@ -0,0 +1,65 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { TemplateRow, expandTemplate, parseDataset, renderTemplate } from '../src/templates.js';
+
+describe('parseDataset (CSV)', () => {
+  it('reads a header row and one row per line', () => {
+    assert.deepEqual(parseDataset('service, team\nbilling,payments\r\nauth,identity\n', 'csv'), [
+      { service: 'billing', team: 'payments' },
+      { service: 'auth', team: 'identity' },
+    ]);
+  });
+
+  it('handles quoted fields with commas, escaped quotes and line breaks', () => {
+    assert.deepEqual(parseDataset('name,notes\n"Doe, Jane","said ""hi""\nthen left"', 'csv'), [
+      { name: 'Doe, Jane', notes: 'said "hi"\nthen left' },
+    ]);
+  });
+
+  it('skips blank lines', () => {
+    assert.deepEqual(parseDataset('\nservice\n\nbilling\n\n', 'csv'), [{ service: 'billing' }]);
+  });
+
+  it('rejects malformed CSV', () => {
+    assert.throws(() => parseDataset('a,b\n"open,1', 'csv'), /unterminated quoted field/);
+    assert.throws(() => parseDataset('a,b\n1,2,3', 'csv'), /row 1 has 3 fields, expected 2/);
+    assert.throws(() => parseDataset('a,b\n', 'csv'), /Dataset is empty/);
+  });
+});
+
+describe('parseDataset (JSON)', () => {
+  it('stringifies non-string values', () => {
+    assert.deepEqual(parseDataset('[{"name":"billing","port":8080,"tags":["a"]}]', 'json'), [
+      { name: 'billing', port: '8080', tags: '["a"]' },
+    ]);
+  });
+
+  it('rejects anything but an array of objects', () => {
+    assert.throws(() => parseDataset('{"name":"billing"}', 'json'), /must be an array of objects/);
+    assert.throws(() => parseDataset('[1]', 'json'), /Row 1 is not an object/);
+    assert.throws(() => parseDataset('[', 'json'), /Invalid JSON dataset/);
+  });
+});
+
+describe('renderTemplate', () => {
+  it('replaces variables, with or without spaces', () => {
+    assert.equal(renderTemplate('{{service}} / {{ team }}', { service: 'billing', team: 'payments' }), 'billing / payments');
+  });
+
+  it('fails on missing variables, including Object.prototype properties', () => {
+    assert.throws(() => renderTemplate('{{team}}', { service: 'billing' }), /Missing variable "team"/);
+    assert.throws(() => renderTemplate('{{constructor}}', {}), /Missing variable "constructor"/);
+    assert.throws(() => renderTemplate('{{toString}}', {}), /Missing variable "toString"/);
+  });
+});
+
+describe('expandTemplate', () => {
+  it('renders one prompt per row and reports the failing row', () => {
+    const rows: TemplateRow[] = [{ service: 'billing' }, { team: 'identity' }];
+
+    assert.deepEqual(expandTemplate('Docs for {{service}}', rows.slice(0, 1)), [
+      { prompt: 'Docs for billing', variables: { service: 'billing' } },
+    ]);
+    assert.throws(() => expandTemplate('Docs for {{service}}', rows), /Row 2: Missing variable "service"/);
+  });
+});